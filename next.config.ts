@@ -1,6 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Agent definitions are read from disk at runtime
+  outputFileTracingIncludes: {
+    "/api/**": ["./agents/*.json"],
+  },
   async headers() {
     return [
       {
@@ -0,0 +1,410 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { inflateRawSync } from "node:zlib";
+import pdfParse from "pdf-parse";
+import { z } from "zod";
+import { DomainPattern, EvidenceDomains } from "../src/lib/agents";
+import { Languages } from "../src/lib/language";
+
+// ---------------------------
+// Supported formats
+// ---------------------------
+export const DOCUMENT_EXTENSIONS = [
+  ".pdf",
+  ".md",
+  ".markdown",
+  ".html",
+  ".htm",
+  ".txt",
+  ".docx",
+] as const;
+
+export const isDocument = (file: string) =>
+  (DOCUMENT_EXTENSIONS as readonly string[]).includes(
+    path.extname(file).toLowerCase()
+  );
+
+/** Every document in `dir` (not recursive), sorted by name. */
+export async function listDocuments(dir: string) {
+  return (await fs.readdir(dir))
+    .filter(isDocument)
+    .sort()
+    .map((f) => path.join(dir, f));
+}
+
+/** Text of a document, plus the title and date its own metadata declares. */
+export type ExtractedDocument = {
+  text: string;
+  title?: string;
+  date?: string; // YYYY-MM-DD
+};
+
+export async function readDocument(file: string): Promise<ExtractedDocument> {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".pdf") return readPdf(await fs.readFile(file));
+  if (ext === ".docx") return readDocx(await fs.readFile(file));
+  const raw = await fs.readFile(file, "utf8");
+  if (ext === ".html" || ext === ".htm") return readHtml(raw);
+  if (ext === ".md" || ext === ".markdown") return readMarkdown(raw);
+  return readText(raw);
+}
+
+// ---------------------------
+// Dates: every format's metadata to YYYY-MM-DD
+// ---------------------------
+function isoDate(raw?: string): string | undefined {
+  if (!raw) return undefined;
+  // PDF dates look like D:20230126093000-05'00'
+  const pdf = raw.match(/^D:(\d{4})(\d{2})?(\d{2})?/);
+  if (pdf) return [pdf[1], pdf[2] ?? "01", pdf[3] ?? "01"].join("-");
+  const iso = raw.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return iso.slice(1).join("-");
+  const parsed = new Date(raw);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+}
+
+// ---------------------------
+// PDF
+// ---------------------------
+// Page marker inserted at the top of every page, so chunks can cite a page
+export const PAGE_MARKER = /⟦p(\d+)⟧/g;
+
+async function readPdf(buf: Buffer): Promise<ExtractedDocument> {
+  let pageNumber = 0;
+  const parsed = await pdfParse(buf, {
+    // pdf-parse's default renderer, plus the marker; pages render in order
+    pagerender: async (pageData) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false,
+      });
+      let lastY: number | undefined;
+      let text = "";
+      for (const item of content.items) {
+        text +=
+          lastY === item.transform[5] || lastY === undefined
+            ? item.str
+            : "\n" + item.str;
+        lastY = item.transform[5];
+      }
+      pageNumber += 1;
+      return `⟦p${pageNumber}⟧\n${text}`;
+    },
+  });
+  const title =
+    typeof parsed.info?.Title === "string" ? parsed.info.Title.trim() : "";
+  return {
+    text: parsed.text,
+    ...(title ? { title } : {}),
+    ...(isoDate(parsed.info?.CreationDate)
+      ? { date: isoDate(parsed.info.CreationDate) }
+      : {}),
+  };
+}
+
+// ---------------------------
+// HTML (regulation texts are mostly published as HTML)
+// ---------------------------
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  sect: "§",
+  para: "¶",
+  copy: "©",
+  reg: "®",
+  euro: "€",
+  bull: "•",
+  middot: "·",
+};
+
+function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code =
+        e[1] === "x" || e[1] === "X"
+          ? parseInt(e.slice(2), 16)
+          : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+/** Collapse spaces within lines and runs of blank lines. */
+function tidyLines(s: string) {
+  return s
+    .split("\n")
+    .map((l) => l.replace(/[ \t ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** `<meta name|property="..." content="...">` pairs, keys lowercased. */
+function htmlMeta(html: string) {
+  const meta = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attr = (name: string) =>
+      tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+    const key = attr("name") ?? attr("property");
+    const content = attr("content");
+    if (key && content) meta.set(key.toLowerCase(), decodeEntities(content));
+  }
+  return meta;
+}
+
+function readHtml(html: string): ExtractedDocument {
+  const meta = htmlMeta(html);
+  const tagText = (tag: string) => {
+    const m = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "i"));
+    return m ? tidyLines(decodeEntities(m[1].replace(/<[^>]+>/g, ""))) : "";
+  };
+  const title =
+    meta.get("dc.title") ||
+    meta.get("og:title") ||
+    meta.get("citation_title") ||
+    tagText("title") ||
+    tagText("h1");
+  const date = isoDate(
+    meta.get("dcterms.date") ||
+      meta.get("dc.date") ||
+      meta.get("date") ||
+      meta.get("citation_publication_date") ||
+      meta.get("article:published_time") ||
+      html.match(/<time\b[^>]*datetime=["']([^"']+)["']/i)?.[1]
+  );
+
+  const body = (html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html)
+    .replace(/<!--[\s\S]*?-->/g, "")
+    // Page chrome and non-text content
+    .replace(
+      /<(script|style|noscript|template|svg|nav|header|footer|aside|form|button)\b[\s\S]*?<\/\1>/gi,
+      ""
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    // Block elements start a new line, so headings stay on lines of their own
+    .replace(
+      /<\/?(p|div|section|article|main|h[1-6]|li|ul|ol|dl|dt|dd|tr|table|thead|tbody|blockquote|pre|figure|figcaption|hr)\b[^>]*>/gi,
+      "\n"
+    )
+    .replace(/<(td|th)\b[^>]*>/gi, " ")
+    .replace(/<[^>]+>/g, "");
+
+  return {
+    text: tidyLines(decodeEntities(body)),
+    ...(title ? { title } : {}),
+    ...(date ? { date } : {}),
+  };
+}
+
+// ---------------------------
+// Markdown and plain text
+// ---------------------------
+function readMarkdown(md: string): ExtractedDocument {
+  // Optional YAML front matter; only flat `key: value` lines are read
+  const fm = md.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  const front = new Map<string, string>();
+  for (const line of fm?.[1].split(/\r?\n/) ?? []) {
+    const m = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    if (m) front.set(m[1].toLowerCase(), m[2].replace(/^["']|["']$/g, ""));
+  }
+  const body = fm ? md.slice(fm[0].length) : md;
+
+  const text = body
+    .replace(/^```.*$/gm, "") // keep fenced code, drop the fences
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // images -> alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // links -> link text
+    // Line-anchored patterns use [ \t], so blank lines between paragraphs stay
+    .replace(/^#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, "$1") // headings stay on their own line
+    .replace(/^[ \t]*>[ \t]?/gm, "") // block quotes
+    .replace(/^[ \t]*\|?(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*:?-*:?[ \t]*$/gm, "") // table rules
+    .replace(/\|/g, " ")
+    .replace(/(\*\*|\*|`)(\S(?:.*?\S)?)\1/g, "$2") // emphasis, inline code
+    // Underscore emphasis only at word edges, so snake_case survives
+    .replace(/(?<![\p{L}\p{N}_])(__?)(\S(?:.*?\S)?)\1(?![\p{L}\p{N}_])/gu, "$2")
+    .replace(/<[^>]+>/g, "");
+
+  const title =
+    front.get("title") || body.match(/^#[ \t]+(.+?)[ \t]*#*[ \t]*$/m)?.[1]?.trim();
+  const date = isoDate(front.get("date"));
+  return {
+    text: tidyLines(text),
+    ...(title ? { title } : {}),
+    ...(date ? { date } : {}),
+  };
+}
+
+function readText(raw: string): ExtractedDocument {
+  const text = raw.replace(/\r\n?/g, "\n");
+  // A short first line is usually the title
+  const first = text.trim().split("\n", 1)[0]?.trim() ?? "";
+  return {
+    text,
+    ...(first && first.length <= 100 ? { title: first } : {}),
+  };
+}
+
+// ---------------------------
+// DOCX: a zip of XML parts; only the body and core properties are needed
+// ---------------------------
+function unzipEntries(buf: Buffer, wanted: string[]) {
+  const found = new Map<string, Buffer>();
+  // End of central directory record, searched from the end (it may have a comment)
+  let eocd = buf.length - 22;
+  while (eocd >= 0 && buf.readUInt32LE(eocd) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error("not a DOCX (zip) file");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let off = buf.readUInt32LE(eocd + 16);
+  for (let i = 0; i < count && buf.readUInt32LE(off) === 0x02014b50; i++) {
+    const method = buf.readUInt16LE(off + 10);
+    const size = buf.readUInt32LE(off + 20);
+    const nameLength = buf.readUInt16LE(off + 28);
+    const extraLength = buf.readUInt16LE(off + 30);
+    const commentLength = buf.readUInt16LE(off + 32);
+    const local = buf.readUInt32LE(off + 42);
+    const name = buf.toString("utf8", off + 46, off + 46 + nameLength);
+    if (wanted.includes(name)) {
+      const start =
+        local + 30 + buf.readUInt16LE(local + 26) + buf.readUInt16LE(local + 28);
+      const data = buf.subarray(start, start + size);
+      if (method === 0) found.set(name, data);
+      else if (method === 8) found.set(name, inflateRawSync(data));
+      else throw new Error(`unsupported zip compression method ${method}`);
+    }
+    off += 46 + nameLength + extraLength + commentLength;
+  }
+  return found;
+}
+
+function readDocx(buf: Buffer): ExtractedDocument {
+  const parts = unzipEntries(buf, ["word/document.xml", "docProps/core.xml"]);
+  const body = parts.get("word/document.xml")?.toString("utf8");
+  if (!body) throw new Error("DOCX has no word/document.xml");
+
+  // One line per paragraph; headings are paragraphs too
+  const text = body
+    .split(/<\/w:p>/)
+    .map((p) =>
+      decodeEntities(
+        p
+          .replace(/<w:tab\/>/g, " ")
+          .replace(/<w:(?:br|cr)\/>/g, "\n")
+          .replace(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<[^>]+>/g, (_, t) => t ?? "")
+      )
+    )
+    .join("\n");
+
+  const core = parts.get("docProps/core.xml")?.toString("utf8") ?? "";
+  const coreField = (tag: string) => {
+    const m = core.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+    return m ? decodeEntities(m[1]).trim() : undefined;
+  };
+  const title = coreField("dc:title");
+  const date = isoDate(coreField("dcterms:created") ?? coreField("dcterms:modified"));
+  return {
+    text: tidyLines(text),
+    ...(title ? { title } : {}),
+    ...(date ? { date } : {}),
+  };
+}
+
+// ---------------------------
+// Sidecars: <document>.meta.json
+// ---------------------------
+export const MetaSchema = z
+  .object({
+    // Retrieval domain, matched against `retrieval.domain` in agents/*.json:
+    // e.g. "aiRisk", "policy" (internal policies), "law", "environment",
+    // "publicHealth", "dei"
+    domain: z
+      .string()
+      .regex(DomainPattern, "must be camelCase letters and digits"),
+    title: z.string().min(1),
+    publisher: z.string().min(1).optional(),
+    url: z.url().optional(),
+    date: z
+      .string()
+      .regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, "use YYYY, YYYY-MM or YYYY-MM-DD")
+      .optional(),
+    jurisdiction: z.string().min(1).optional(), // e.g. "US/Global"
+    language: z.enum(Languages).optional(), // detected from the text when left out
+    doc_id: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9._-]*$/, "use lowercase letters, digits, . _ -"),
+  })
+  .strict();
+
+export type Meta = z.infer<typeof MetaSchema>;
+
+export const sidecarPath = (file: string) => file + ".meta.json";
+
+/** "NIST.AI.100-1.pdf" -> "nist-ai-100-1" */
+export const docIdFor = (file: string) =>
+  path
+    .basename(file, path.extname(file))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "document";
+
+/** Validation problems of a sidecar, empty if it is valid. */
+export function checkMeta(raw: unknown): string[] {
+  const parsed = MetaSchema.safeParse(raw);
+  if (!parsed.success) {
+    return parsed.error.issues.map(
+      (i) => `${i.path.join(".") || "sidecar"}: ${i.message}`
+    );
+  }
+  return [];
+}
+
+/** Warnings that do not stop ingestion. */
+export function metaWarnings(meta: Meta): string[] {
+  return EvidenceDomains.includes(meta.domain)
+    ? []
+    : [
+        `no agent retrieves from domain "${meta.domain}" (set retrieval.domain in agents/*.json)`,
+      ];
+}
+
+/** The document's sidecar, or null if it has none; throws if it is invalid. */
+export async function readSidecar(file: string): Promise<Meta | null> {
+  const metaPath = sidecarPath(file);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(metaPath, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new Error(`${metaPath}: ${String(err)}`);
+  }
+  const problems = checkMeta(raw);
+  if (problems.length) throw new Error(`${metaPath}: ${problems.join("; ")}`);
+  return raw as Meta;
+}
+
+/** Metadata for a document without a sidecar, from what the document declares. */
+export function metaFromDocument(
+  file: string,
+  doc: ExtractedDocument,
+  domain: string
+): Meta {
+  return {
+    domain,
+    title: doc.title || path.basename(file, path.extname(file)),
+    ...(doc.date ? { date: doc.date } : {}),
+    doc_id: docIdFor(file),
+  };
+}
@@ -1,11 +1,24 @@
 import dotenv from "dotenv";
 import { embedMany } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { fileURLToPath } from "url";
-import fs from "node:fs/promises";
 import path from "node:path";
-import pdfParse from "pdf-parse";
-import { Pinecone } from "@pinecone-database/pinecone";
+import { parseArgs } from "node:util";
+import { apiKeyEnvFor, embeddingModel } from "../src/lib/models";
+import { createVectorStore, type VectorIndex } from "../src/lib/vectorStore";
+import { splitJurisdiction } from "../src/lib/jurisdictions";
+import { DomainPattern } from "../src/lib/agents";
+import { detectLanguage } from "../src/lib/language";
+import type { Language } from "../src/types/ai";
+import {
+  PAGE_MARKER,
+  listDocuments,
+  readDocument,
+  readSidecar,
+  metaFromDocument,
+  metaWarnings,
+  sidecarPath,
+  type Meta,
+} from "./documents";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -13,7 +26,6 @@ const __dirname = path.dirname(__filename);
 dotenv.config({ path: path.resolve(__dirname, "../.env.local") });
 
 const DATA_DIR = path.join(process.cwd(), "data");
-const INDEX_NAME = "moral-compass-ai";
 const NAMESPACE = "__default__";
 
 // Chunking targets: ~900 tokens ~= ~3.6–4.0k characters (English)
@@ -29,67 +41,74 @@ const UPSERT_BATCH_SIZE = 150;
 const MIN_SECTION_CHARS = 120;
 const MIN_CHUNK_CHARS = 120;
 
-type Meta = {
-  domain: "aiRisk";
-  title: string;
-  publisher?: string;
-  url?: string;
-  date?: string;
-  jurisdiction?: string;
-  doc_id: string;
-};
-
 // ---------------------------
-// Helpers: PDF, cleaning, sectioning
+// Helpers: pages, cleaning, sectioning
 // ---------------------------
-async function readPdfText(filePath: string) {
-  const buf = await fs.readFile(filePath);
-  const parsed = await pdfParse(buf);
-  return parsed.text;
+/** Page of the last marker in `text`, or `page` if it has none. */
+function lastPage(text: string, page: number) {
+  for (const m of text.matchAll(PAGE_MARKER)) page = Number(m[1]);
+  return page;
 }
 
 function normalize(text: string) {
   return text
     .replace(/\r/g, "")
-    .replace(/-\n(?=[a-z])/g, "") // de-hyphenate mid-word line breaks
+    .replace(/-\n(?=\p{Ll})/gu, "") // de-hyphenate mid-word line breaks
     .replace(/[ \t]+\n/g, "\n")
     .replace(/\n{3,}/g, "\n\n")
     .trim();
 }
 
 function stripLikelyFrontMatter(fullText: string) {
-  // crude heuristic to skip cover/TOC/acknowledgments
-  const idx = fullText.search(/\n(Introduction|Executive Summary|Scope)\b/i);
-  return idx > 0 ? fullText.slice(idx) : fullText;
+  // crude heuristic to skip cover/TOC/acknowledgments (en, de, fr, es, it)
+  const idx = fullText.search(
+    /\n(Introduction|Executive Summary|Scope|Einleitung|Einführung|Zusammenfassung|Geltungsbereich|Résumé|Champ d['’]application|Objet|Introducción|Resumen|Ámbito de aplicación|Introduzione|Sintesi|Ambito di applicazione)(?!\p{L})/iu
+  );
+  if (idx <= 0) return fullText;
+  const kept = fullText.slice(idx);
+  // keep the page the kept text starts on (only PDFs have page markers)
+  return /⟦p\d+⟧/.test(fullText)
+    ? `⟦p${lastPage(fullText.slice(0, idx), 1)}⟧${kept}`
+    : kept;
 }
 
 function tagSections(text: string, docId: string) {
-  // lightweight section splitting on lines that look like headings
-  const parts = text.split(/\n(?=[A-Z][A-Za-z0-9 ,:;()\/-]{3,100}\n)/g);
-  return parts.map((p, i) => ({
-    section: `sec-${i + 1}`,
-    text: p.trim(),
-    docId,
-  }));
+  // lightweight section splitting on lines that look like headings,
+  // including numbered ones such as "4.2 Vendor approval" in policies
+  const parts = text.split(
+    /\n(?=(?:§?\d+(?:\.\d+)*\.?[ \t]+)?\p{Lu}[\p{L}0-9 ,:;()'’\/-]{3,100}\n)/gu
+  );
+  return parts.map((p, i) => {
+    const text = p.trim();
+    // Keep the heading (e.g. "4. High-impact AI systems") so policy clauses can be cited
+    const firstLine = text.split("\n", 1)[0].trim();
+    return {
+      section: `sec-${i + 1}`,
+      ...(firstLine.length <= 100 && i > 0 ? { heading: firstLine } : {}),
+      text,
+      docId,
+    };
+  });
 }
 
 // ---------------------------
 // Chunking (sentence-pack with overlap)
 // ---------------------------
-function splitSentences(s: string) {
-  return s
-    .replace(/\s+/g, " ")
-    .split(/(?<=[.!?])\s+(?=[A-Z(“"0-9])/)
-    .map((x) => x.trim())
-    .filter(Boolean);
+function splitSentences(s: string, language: Language) {
+  // The locale knows abbreviations and quote styles ("z. B.", « … », „…“)
+  const segmenter = new Intl.Segmenter(language, { granularity: "sentence" });
+  return Array.from(segmenter.segment(s.replace(/\s+/g, " ")), (x) =>
+    x.segment.trim()
+  ).filter(Boolean);
 }
 
 function chunkBySentences(
   text: string,
+  language: Language,
   targetChars = CHUNK_TARGET_CHARS,
   overlapSentences = CHUNK_OVERLAP_SENTENCES
 ) {
-  const sents = splitSentences(text);
+  const sents = splitSentences(text, language);
   const chunks: string[] = [];
   let buf: string[] = [];
 
@@ -111,39 +130,59 @@ function chunkBySentences(
 // ---------------------------
 async function embedBatch(texts: string[]) {
   const { embeddings } = await embedMany({
-    model: openai.embedding("text-embedding-3-small"), // 512-D
+    // Must match the embeddings role the app queries with
+    model: embeddingModel(),
     values: texts,
   });
   return embeddings;
 }
 
 // ---------------------------
-// Ingest pipeline for one PDF
+// Ingest pipeline for one document
 // ---------------------------
 async function readWithMeta(
-  fullPdfPath: string
+  file: string,
+  defaultDomain?: string
 ): Promise<{ text: string; meta: Meta }> {
-  const metaPath = fullPdfPath + ".meta.json";
-  const meta = JSON.parse(await fs.readFile(metaPath, "utf8")) as Meta;
-  const text = await readPdfText(fullPdfPath);
-  return { text, meta };
+  const doc = await readDocument(file);
+  let meta = await readSidecar(file);
+  if (!meta) {
+    if (!defaultDomain) {
+      throw new Error(
+        `${sidecarPath(file)} not found. Pass --domain, or create it with: pnpm sidecars scaffold --domain <domain>`
+      );
+    }
+    // Title and date from the document's own metadata
+    meta = metaFromDocument(file, doc, defaultDomain);
+    console.log(
+      `No sidecar for ${path.basename(file)}; using ${JSON.stringify(meta)}`
+    );
+  }
+  for (const w of metaWarnings(meta)) {
+    console.warn(`${sidecarPath(file)}: ${w}`);
+  }
+  return { text: doc.text, meta };
 }
 
 async function upsertDoc(
-  pdfPath: string,
-  index: ReturnType<Pinecone["index"]>
+  file: string,
+  index: VectorIndex,
+  defaultDomain?: string
 ) {
-  const base = path.basename(pdfPath);
-  const { text, meta } = await readWithMeta(pdfPath);
+  const base = path.basename(file);
+  const { text, meta } = await readWithMeta(file, defaultDomain);
 
-  // 1) clean
+  // 1) clean; only PDFs have page markers
+  const paged = /⟦p\d+⟧/.test(text);
   const cleaned = normalize(stripLikelyFrontMatter(text));
+  const language = meta.language ?? detectLanguage(cleaned.slice(0, 5000));
 
   // 2) section hinting
   const sections = tagSections(cleaned, meta.doc_id);
 
   // 3) chunk -> embed -> upsert
   let gid = 0;
+  let page = 1; // page the next chunk starts on
   const pending: {
     id: string;
     values: number[];
@@ -151,18 +190,29 @@ async function upsertDoc(
   }[] = [];
 
   for (const s of sections) {
-    if (s.text.length < MIN_SECTION_CHARS) continue;
+    if (s.text.length < MIN_SECTION_CHARS) {
+      page = lastPage(s.text, page);
+      continue;
+    }
 
+    // Track the page each chunk starts on, then drop the markers
     const chunks = chunkBySentences(
       s.text,
+      language,
       CHUNK_TARGET_CHARS,
       CHUNK_OVERLAP_SENTENCES
-    ).filter((c) => c.trim().length > MIN_CHUNK_CHARS);
+    )
+      .map((c) => {
+        const chunk = { text: c.replace(PAGE_MARKER, "").trim(), page };
+        page = lastPage(c, page);
+        return chunk;
+      })
+      .filter((c) => c.text.length > MIN_CHUNK_CHARS);
 
     // embed in slices (predictable memory) — embedMany also auto-chunks internally
     for (let i = 0; i < chunks.length; i += EMBED_SLICE_SIZE) {
       const slice = chunks.slice(i, i + EMBED_SLICE_SIZE);
-      const vecs = await embedBatch(slice);
+      const vecs = await embedBatch(slice.map((c) => c.text));
 
       vecs.forEach((v, k) => {
         gid += 1;
@@ -170,9 +220,16 @@ async function upsertDoc(
           id: `${meta.doc_id}:${gid}`,
           values: v,
           metadata: {
-            ...meta, // domain, title, url, date, jurisdiction, doc_id
+            ...meta, // domain, title, publisher, url, date, jurisdiction, doc_id
+            // "US/Global" -> ["US", "Global"], matched by retrieval's jurisdiction filter
+            ...(meta.jurisdiction
+              ? { jurisdictions: splitJurisdiction(meta.jurisdiction) }
+              : {}),
+            language,
             section: s.section,
-            text: slice[k],
+            ...(s.heading ? { heading: s.heading } : {}),
+            ...(paged ? { page: slice[k].page } : {}),
+            text: slice[k].text,
             source_file: base,
           },
         });
@@ -180,7 +237,14 @@ async function upsertDoc(
     }
   }
 
-  // 4) Pinecone upsert in batches
+  // 4) replace the document's previous chunks, then upsert in batches
+  try {
+    await index.deleteMany({ doc_id: { $eq: meta.doc_id } });
+  } catch (err) {
+    // Serverless Pinecone indexes cannot delete by metadata; ids are stable,
+    // so only chunks beyond the new count are left behind
+    console.warn(`Could not remove old chunks of ${meta.doc_id}:`, err);
+  }
   for (let i = 0; i < pending.length; i += UPSERT_BATCH_SIZE) {
     const batch = pending.slice(i, i + UPSERT_BATCH_SIZE);
     await index.upsert(batch);
@@ -193,33 +257,37 @@ async function upsertDoc(
 // Main
 // ---------------------------
 async function main() {
-  if (!INDEX_NAME) {
-    throw new Error("PINECONE_INDEX is required");
-  }
-  if (!process.env.PINECONE_API_KEY) {
-    throw new Error("PINECONE_API_KEY is required");
+  // --domain: domain of documents that have no .meta.json sidecar
+  const { values } = parseArgs({ options: { domain: { type: "string" } } });
+  if (values.domain !== undefined && !DomainPattern.test(values.domain)) {
+    throw new Error(
+      `--domain must be camelCase letters and digits, got "${values.domain}"`
+    );
   }
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is required");
+  // Embeddings may come from a local provider in models.config.json that needs no key
+  const keyEnv = apiKeyEnvFor("embeddings");
+  if (keyEnv && !process.env[keyEnv]) {
+    throw new Error(`${keyEnv} is required`);
   }
 
-  const pc = new Pinecone({
-    apiKey: process.env.PINECONE_API_KEY!,
-  });
-  const index = pc.index(INDEX_NAME).namespace(NAMESPACE);
+  // VECTOR_STORE / PINECONE_API_KEY pick Pinecone or local files, as in the app
+  const store = createVectorStore();
+  if (store.kind === "pinecone" && !process.env.PINECONE_API_KEY) {
+    throw new Error("PINECONE_API_KEY is required");
+  }
+  const index = store.namespace(NAMESPACE);
+  console.log(`Ingesting into the ${store.kind} vector store`);
 
-  const files = (await fs.readdir(DATA_DIR))
-    .filter((f) => f.endsWith(".pdf"))
-    .map((f) => path.join(DATA_DIR, f));
+  const files = await listDocuments(DATA_DIR);
 
   if (files.length === 0) {
-    console.warn(`No PDFs found in ${DATA_DIR}`);
+    console.warn(`No documents found in ${DATA_DIR}`);
     return;
   }
 
   for (const f of files) {
     try {
-      await upsertDoc(f, index);
+      await upsertDoc(f, index, values.domain);
     } catch (err) {
       console.error(`Failed to ingest ${path.basename(f)}:`, err);
     }
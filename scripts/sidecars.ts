@@ -0,0 +1,155 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { DomainPattern } from "../src/lib/agents";
+import { detectLanguage } from "../src/lib/language";
+import {
+  checkMeta,
+  isDocument,
+  listDocuments,
+  metaFromDocument,
+  metaWarnings,
+  readDocument,
+  sidecarPath,
+  type Meta,
+} from "./documents";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+const USAGE = `Usage:
+  pnpm sidecars scaffold --domain <domain> [--force] [files...]
+      Write <file>.meta.json for documents in data/ (or the given files) that
+      have none, with the title, date and language read from each document.
+      --force overwrites existing sidecars.
+  pnpm sidecars validate [files...]
+      Check every sidecar in data/ (or those of the given files). Exits with
+      status 1 if any is invalid.`;
+
+// ---------------------------
+// scaffold
+// ---------------------------
+async function scaffold(files: string[], domain: string, force: boolean) {
+  let written = 0;
+  for (const file of files) {
+    const metaPath = sidecarPath(file);
+    const exists = await fs.stat(metaPath).then(
+      () => true,
+      () => false
+    );
+    if (exists && !force) {
+      console.log(
+        `skip   ${path.basename(metaPath)} (exists; --force to overwrite)`
+      );
+      continue;
+    }
+
+    const doc = await readDocument(file);
+    const meta: Meta = {
+      ...metaFromDocument(file, doc, domain),
+      language: detectLanguage(doc.text.slice(0, 5000)),
+    };
+    await fs.writeFile(metaPath, JSON.stringify(meta, null, 2) + "\n");
+    written += 1;
+    console.log(`write  ${path.basename(metaPath)}: "${meta.title}"`);
+  }
+  if (written) {
+    console.log(
+      `\nWrote ${written} sidecar(s). Check each title, and add publisher, url and jurisdiction where known.`
+    );
+  }
+}
+
+// ---------------------------
+// validate
+// ---------------------------
+async function validate(files: string[]) {
+  let errors = 0;
+  const docIds = new Map<string, string>();
+
+  for (const file of files) {
+    const name = path.basename(sidecarPath(file));
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(sidecarPath(file), "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        console.warn(`warn   ${name}: missing (ingest needs --domain)`);
+      } else {
+        errors += 1;
+        console.error(`error  ${name}: ${String(err)}`);
+      }
+      continue;
+    }
+
+    const problems = checkMeta(raw);
+    const meta = raw as Meta;
+    const other = problems.length ? undefined : docIds.get(meta.doc_id);
+    if (other) {
+      problems.push(`doc_id "${meta.doc_id}" is also used by ${other}`);
+    }
+    if (problems.length) {
+      errors += 1;
+      for (const p of problems) console.error(`error  ${name}: ${p}`);
+      continue;
+    }
+    docIds.set(meta.doc_id, name);
+    for (const w of metaWarnings(meta)) console.warn(`warn   ${name}: ${w}`);
+    console.log(`ok     ${name}`);
+  }
+
+  console.log(`\n${files.length} document(s), ${errors} invalid sidecar(s).`);
+  if (errors) process.exitCode = 1;
+}
+
+/** Sidecars in data/ whose document was renamed or removed. */
+async function warnOrphans(files: string[]) {
+  for (const f of await fs.readdir(DATA_DIR)) {
+    if (!f.endsWith(".meta.json")) continue;
+    const doc = path.join(DATA_DIR, f.slice(0, -".meta.json".length));
+    if (!files.includes(doc)) console.warn(`warn   ${f}: no matching document`);
+  }
+}
+
+// ---------------------------
+// Main
+// ---------------------------
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      domain: { type: "string" },
+      force: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, ...paths] = positionals;
+  if (values.help || (command !== "scaffold" && command !== "validate")) {
+    console.log(USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  const files = paths.length
+    ? paths.map((p) => path.resolve(p)).filter(isDocument)
+    : await listDocuments(DATA_DIR);
+  if (!files.length) {
+    console.warn(`No documents found${paths.length ? "" : ` in ${DATA_DIR}`}`);
+    return;
+  }
+
+  if (command === "validate") {
+    await validate(files);
+    if (!paths.length) await warnOrphans(files);
+    return;
+  }
+
+  if (!values.domain || !DomainPattern.test(values.domain)) {
+    throw new Error("scaffold needs --domain <domain>, e.g. --domain law");
+  }
+  return scaffold(files, values.domain, values.force);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,13 @@
+import { agentDefinitions } from "@/lib/agents";
+import type { AgentSummary } from "@/types/ai";
+
+export const runtime = "nodejs";
+
+/** The agent roster for the UI, in registry order. */
+export async function GET() {
+  const agents: AgentSummary[] = agentDefinitions.map(({ name, label }) => ({
+    name,
+    label,
+  }));
+  return Response.json({ agents });
+}
@@ -1,4 +1,3 @@
-import { openai } from "@ai-sdk/openai";
 import {
   createUIMessageStream,
   createUIMessageStreamResponse,
@@ -6,17 +5,16 @@ import {
   convertToModelMessages,
   stepCountIs,
   type UIMessage,
+  type UIMessageStreamWriter,
+  type ToolSet,
 } from "ai";
 import {
-  environmentTool,
-  lawTool,
-  deiTool,
-  economistTool,
-  prAndReputationTool,
-  publicHealthTool,
-  aiRiskTool,
-  synthesisTool,
+  agentToolsWithPolicy,
+  withRequestContext,
+  createSynthesisTool,
   generatePdfLogTool,
+  AllowedTools,
+  type AgentName,
 } from "@/tools";
 import { getClientId, checkMultipleLimits, rateHeaders } from "@/lib/rateLimit";
 import {
@@ -26,14 +24,93 @@ import {
   validateInput,
   detectPromptInjection,
 } from "@/lib/safety";
-import type { MoralMessage, AgentData, SynthesisData } from "@/types/ai";
+import type {
+  MoralMessage,
+  AgentData,
+  SynthesisData,
+  DebateData,
+  ComparisonData,
+  MissingAgent,
+  OrchestrationMode,
+} from "@/types/ai";
 import { semanticCache } from "@/lib/semanticCache";
+import { modelSettings } from "@/lib/models";
+import {
+  UsageMeter,
+  runWithUsage,
+  currentUsage,
+  describeUsage,
+} from "@/lib/usage";
+import {
+  parseFindings,
+  renderFindings,
+  collectClauses,
+  collectCitations,
+} from "@/lib/findings";
+import { buildScorecard } from "@/lib/scorecard";
+import { parseJurisdictions, jurisdictionScope } from "@/lib/jurisdictions";
+import { loadProfile, profileScope, describeProfile } from "@/lib/profile";
+import {
+  detectLanguage,
+  parseLanguage,
+  languageScope,
+  LanguageNames,
+} from "@/lib/language";
+import { assessConfidence } from "@/lib/confidence";
+import { createPdfToken } from "@/lib/pdfToken";
+import {
+  runParallelAnalysis,
+  parseAgentRoster,
+  rosterScope,
+} from "@/lib/orchestrator";
+import {
+  assessSpecification,
+  describeClarifications,
+  parseClarifications,
+} from "@/lib/clarify";
+import {
+  AGENT_POLICY,
+  AGENT_RESERVE_MS,
+  SYNTHESIS_RESERVE_MS,
+  describeFailure,
+  requestDeadline,
+  runWithPolicy,
+  withinDeadline,
+} from "@/lib/resilience";
+import { parseComparisonOptions, describeOptions } from "@/lib/comparison";
 
 export const maxDuration = 60;
 
+type StreamExecute = (opts: {
+  writer: UIMessageStreamWriter<MoralMessage>;
+}) => Promise<void>;
+
 export async function POST(req: Request) {
+  // Every model call this request makes, in tools and streams too, is metered here
+  const usage = new UsageMeter();
+  return runWithUsage(usage, () => analyzeDecision(req, usage));
+}
+
+async function analyzeDecision(req: Request, usage: UsageMeter) {
   const clientId = getClientId(req);
   const timestamp = new Date().toISOString();
+  // Every model stage below is cut off so the response ends within maxDuration
+  const deadline = requestDeadline();
+
+  // Stream callbacks stay on this request's meter wherever the SDK runs them
+  const metered =
+    (execute: StreamExecute) =>
+    (opts: Parameters<StreamExecute>[0]) =>
+      runWithUsage(usage, () => execute(opts));
+
+  // Close every stream with what this request cost so far
+  const writeUsage = (writer: UIMessageStreamWriter<MoralMessage>) => {
+    const data = usage.snapshot();
+    console.log(
+      `💰 USAGE: ${timestamp} | Client: ${clientId} | ${describeUsage(data)}`
+    );
+    writer.write({ type: "data-usage", id: "usage", data });
+  };
 
   // Log request attempt
   console.log(
@@ -68,10 +145,45 @@ export async function POST(req: Request) {
     return res;
   }
 
-  const { messages }: { messages: UIMessage[] } = await req.json();
+  const body: {
+    messages: UIMessage[];
+    mode?: OrchestrationMode;
+    agents?: unknown;
+    debate?: boolean;
+    clarifications?: unknown;
+    options?: unknown;
+    jurisdictions?: unknown;
+    language?: unknown;
+  } = await req.json();
+  let { messages } = body;
+  // Debate and comparison need every finding up front, so they imply parallel mode
+  const debate = body.debate === true;
+  const comparing = body.options !== undefined && body.options !== null;
+  const mode: OrchestrationMode =
+    body.mode === "parallel" || debate || comparing ? "parallel" : "auto";
+
+  // Answers to clarifying questions, if this is a resubmission
+  const clarificationCheck = parseClarifications(body.clarifications);
+  if (!clarificationCheck.valid) {
+    console.warn(
+      `❌ VALIDATION: ${timestamp} | Client: ${clientId} | Error: ${clarificationCheck.error}`
+    );
+
+    const res = new Response(
+      JSON.stringify({ error: clarificationCheck.error }),
+      { status: 400 }
+    );
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  }
+  const { clarifications } = clarificationCheck;
 
   // Validate input size and structure for test app
-  const validation = validateInput(req, messages);
+  const validation = validateInput(req, messages, {
+    ...(clarifications?.length
+      ? { clarification: describeClarifications(clarifications) }
+      : {}),
+  });
   if (!validation.valid) {
     // Log validation failure
     console.warn(
@@ -91,11 +203,91 @@ export async function POST(req: Request) {
     return res;
   }
 
-  const rawUser = extractUserText(messages);
+  const rosterCheck = parseAgentRoster(body.agents);
+  if (!rosterCheck.valid) {
+    console.warn(
+      `❌ VALIDATION: ${timestamp} | Client: ${clientId} | Error: ${rosterCheck.error}`
+    );
+
+    const res = new Response(JSON.stringify({ error: rosterCheck.error }), {
+      status: 400,
+    });
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  }
+  const { roster } = rosterCheck;
+
+  const optionsCheck = parseComparisonOptions(body.options);
+  if (!optionsCheck.valid) {
+    console.warn(
+      `❌ VALIDATION: ${timestamp} | Client: ${clientId} | Error: ${optionsCheck.error}`
+    );
+
+    const res = new Response(JSON.stringify({ error: optionsCheck.error }), {
+      status: 400,
+    });
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  }
+
+  const jurisdictionCheck = parseJurisdictions(body.jurisdictions);
+  if (!jurisdictionCheck.valid) {
+    console.warn(
+      `❌ VALIDATION: ${timestamp} | Client: ${clientId} | Error: ${jurisdictionCheck.error}`
+    );
+
+    const res = new Response(
+      JSON.stringify({ error: jurisdictionCheck.error }),
+      { status: 400 }
+    );
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  }
+  const { jurisdictions } = jurisdictionCheck;
 
-  // Check for prompt injection attempts
-  const injectionCheck = detectPromptInjection(rawUser);
-  if (injectionCheck.detected && injectionCheck.riskLevel === "high") {
+  const languageCheck = parseLanguage(body.language);
+  if (!languageCheck.valid) {
+    console.warn(
+      `❌ VALIDATION: ${timestamp} | Client: ${clientId} | Error: ${languageCheck.error}`
+    );
+
+    const res = new Response(JSON.stringify({ error: languageCheck.error }), {
+      status: 400,
+    });
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  }
+
+  // Every analysis is tailored to the saved organization profile, if any
+  const profile = (await loadProfile()) ?? undefined;
+
+  const rawUser = extractUserText(messages);
+  // Redaction follows the input's language; output uses the chosen one if any
+  const inputLanguage = detectLanguage(rawUser);
+  const language = languageCheck.language ?? inputLanguage;
+
+  const cacheScope = [
+    rosterScope(roster),
+    debate ? "debate" : "",
+    optionsCheck.options ? "compare" : "",
+    jurisdictionScope(jurisdictions),
+    profileScope(profile),
+    languageScope(language),
+  ]
+    .filter(Boolean)
+    .join(";");
+
+  // Check for prompt injection attempts (in the decision and any options)
+  const injectionCheck = detectPromptInjection(rawUser, [language]);
+  const optionsInjection = optionsCheck.options
+    ? detectPromptInjection(describeOptions(optionsCheck.options), [
+        language,
+      ])
+    : null;
+  if (
+    (injectionCheck.detected && injectionCheck.riskLevel === "high") ||
+    optionsInjection?.riskLevel === "high"
+  ) {
     // Log high-risk injection attempt (additional logging)
     console.error(
       `🚨 HIGH_RISK_INJECTION: ${timestamp} | Client: ${clientId} | Patterns: ${injectionCheck.patterns?.join(
@@ -107,8 +299,11 @@ export async function POST(req: Request) {
       JSON.stringify({
         error:
           "Your prompt contains suspicious patterns that may be attempting to manipulate the AI. Please rephrase your question.",
-        patterns: injectionCheck.patterns,
-        riskLevel: injectionCheck.riskLevel,
+        patterns: [
+          ...(injectionCheck.patterns ?? []),
+          ...(optionsInjection?.patterns ?? []),
+        ],
+        riskLevel: "high",
       }),
       { status: 400 }
     );
@@ -118,7 +313,11 @@ export async function POST(req: Request) {
 
   // Use sanitized text if injection was detected but not high risk
   const textToModerate = injectionCheck.sanitizedText || rawUser;
-  const userOk = await moderateText(textToModerate);
+  const userOk = await moderateText(
+    optionsCheck.options
+      ? `${textToModerate}\n${describeOptions(optionsCheck.options)}`
+      : textToModerate
+  );
   if (!userOk.allowed) {
     // Log moderation failure
     console.warn(
@@ -141,7 +340,23 @@ export async function POST(req: Request) {
 
   // Apply PII redaction to the text (could be sanitized from injection detection)
   const finalText = injectionCheck.sanitizedText || rawUser;
-  const sanitized = redactPII(finalText);
+  const sanitized = redactPII(finalText, inputLanguage);
+  const cleanOption = (t: string) =>
+    redactPII(
+      detectPromptInjection(t, [language]).sanitizedText || t,
+      inputLanguage
+    );
+  const options = optionsCheck.options?.map((o) => ({
+    name: cleanOption(o.name),
+    ...(o.description ? { description: cleanOption(o.description) } : {}),
+  }));
+  // Options and jurisdictions change the analysis, so they are part of the
+  // cache lookup and specification check
+  const decisionText = [
+    sanitized,
+    ...(jurisdictions ? [`Jurisdictions: ${jurisdictions.join(", ")}`] : []),
+    ...(options ? [`Options:\n${describeOptions(options)}`] : []),
+  ].join("\n\n");
 
   const isTextPart = (p: {
     type: string;
@@ -162,11 +377,15 @@ export async function POST(req: Request) {
         break;
       }
     }
-    (messages as unknown as UIMessage[]) = newMessages;
+    messages = newMessages;
   }
 
   // Check semantic cache for similar decisions
-  const cachedFlow = await semanticCache.get(sanitized);
+  const cachedFlow = await semanticCache.get(
+    decisionText,
+    cacheScope,
+    req.signal
+  );
   if (cachedFlow) {
     console.log(
       `⚡ CACHE: Returning cached conversation flow for similar query`
@@ -175,12 +394,14 @@ export async function POST(req: Request) {
     // Type guard for cached flow structure
     const flow = cachedFlow as {
       agentOutputs?: AgentData[];
+      debate?: DebateData[];
+      comparison?: ComparisonData;
       synthesis?: SynthesisData;
     };
 
     // Return cached full conversation flow as a stream
     const stream = createUIMessageStream<MoralMessage>({
-      execute: async ({ writer }) => {
+      execute: metered(async ({ writer }) => {
         // Replay all agent outputs from cache
         for (const agentData of flow.agentOutputs || []) {
           writer.write({
@@ -190,6 +411,22 @@ export async function POST(req: Request) {
           });
         }
 
+        for (const debateData of flow.debate || []) {
+          writer.write({
+            type: "data-debate",
+            id: `debate-${debateData.agent}`,
+            data: debateData,
+          });
+        }
+
+        if (flow.comparison) {
+          writer.write({
+            type: "data-comparison",
+            id: "comparison",
+            data: flow.comparison,
+          });
+        }
+
         // Write the cached synthesis data
         if (flow.synthesis) {
           writer.write({
@@ -198,48 +435,198 @@ export async function POST(req: Request) {
             data: flow.synthesis,
           });
         }
+
+        writeUsage(writer);
+      }),
+    });
+
+    const res = createUIMessageStreamResponse({ stream });
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  }
+
+  // Ask for missing key facts before any agent runs (once per decision: a
+  // resubmission carries the answers, possibly none)
+  if (!clarifications) {
+    // Only a pre-check: if the router fails or is slow, analyze as asked
+    const clarification = await runWithPolicy(
+      (signal) => assessSpecification(decisionText, language, signal),
+      withinDeadline(
+        { ...AGENT_POLICY, retries: 0 },
+        deadline,
+        AGENT_RESERVE_MS
+      ),
+      req.signal
+    ).catch((err) => {
+      console.warn(
+        `⚠️ CLARIFY: ${timestamp} | Client: ${clientId} | Skipped: ${
+          describeFailure(err).error
+        }`
+      );
+      return null;
+    });
+    if (clarification) {
+      console.log(
+        `❓ CLARIFY: ${timestamp} | Client: ${clientId} | Score: ${clarification.score.toFixed(
+          2
+        )} | Questions: ${clarification.questions.length}`
+      );
+
+      const stream = createUIMessageStream<MoralMessage>({
+        execute: metered(async ({ writer }) => {
+          writer.write({
+            type: "data-clarification",
+            id: "clarification",
+            data: clarification,
+          });
+          writeUsage(writer);
+        }),
+      });
+
+      const res = createUIMessageStreamResponse({ stream });
+      rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+      return res;
+    }
+  }
+
+  if (mode === "parallel") {
+    const stream = createUIMessageStream<MoralMessage>({
+      execute: metered(async ({ writer }) => {
+        const flow = await runParallelAnalysis({
+          decision: sanitized,
+          roster,
+          debate,
+          options,
+          jurisdictions,
+          profile,
+          language,
+          writer,
+          deadline,
+          abortSignal: req.signal,
+        });
+
+        // Cache the complete conversation flow (partial or cancelled results are not cached)
+        if (!flow.synthesis.missingAgents?.length && !req.signal.aborted) {
+          await semanticCache
+            .set(decisionText, flow, cacheScope, req.signal)
+            .catch(console.error);
+        }
+
+        writeUsage(writer);
+      }),
+      onError(error) {
+        if (req.signal.aborted) {
+          console.log(
+            `🛑 CANCELLED: ${timestamp} | Client: ${clientId} | Mode: parallel`
+          );
+          return "The analysis was cancelled.";
+        }
+        console.error("parallel analysis error:", error);
+        return "The analysis could not be completed. Please try again.";
       },
     });
 
+    console.log(
+      `✅ SUCCESS: ${timestamp} | Client: ${clientId} | Mode: parallel${debate ? "+debate" : ""}${
+        options ? `+compare(${options.length})` : ""
+      } | Text length: ${rawUser.length} | Language: ${language}`
+    );
+
     const res = createUIMessageStreamResponse({ stream });
     rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
     return res;
   }
 
+  const rosterNames: AgentName[] = roster?.map((a) => a.name) ?? [
+    ...AllowedTools,
+  ];
+  const requiredAgents = (roster ?? [])
+    .filter((a) => a.required)
+    .map((a) => a.name);
+
+  // Agent names come from the registry, so the tool set is keyed by string
+  const tools: ToolSet = {
+    ...withRequestContext(
+      agentToolsWithPolicy(
+        withinDeadline(AGENT_POLICY, deadline, SYNTHESIS_RESERVE_MS)
+      ),
+      { jurisdictions, profile, language }
+    ),
+    generatePdfLog: generatePdfLogTool,
+    synthesis: createSynthesisTool({ profile, language, deadline }),
+  };
+
   const stream = createUIMessageStream<MoralMessage>({
-    execute: async ({ writer }) => {
+    execute: metered(async ({ writer }) => {
       const result = streamText({
-        model: openai("gpt-4.1-nano"),
-        tools: {
-          environment: environmentTool,
-          law: lawTool,
-          dei: deiTool,
-          economist: economistTool,
-          prAndReputation: prAndReputationTool,
-          publicHealth: publicHealthTool,
-          aiRisk: aiRiskTool,
-          generatePdfLog: generatePdfLogTool,
-          synthesis: synthesisTool,
-        },
+        ...modelSettings("router"),
+        // Cancels the router and, through each tool's execute, every agent call
+        abortSignal: req.signal,
+        tools,
+        activeTools: [...rosterNames, "generatePdfLog", "synthesis"],
         system: `
           You are a Moral Compass AI that helps organizations evaluate ethical decisions.
           Call only relevant tools based on the decision context.
-          You MUST finish by calling the 'synthesis' tool with { summary, agentsUsed, confidence }
+          You MUST finish by calling the 'synthesis' tool with { summary, agentsUsed }
           After synthesis is complete, you SHOULD call the 'generatePdfLog' tool to create a downloadable report.
           Do NOT hallucinate tool names.
+          ${
+            jurisdictions
+              ? `The decision applies in: ${jurisdictions.join(", ")}. The synthesis summary must say where the recommendation differs by jurisdiction.`
+              : ""
+          }
+          ${
+            profile
+              ? `The analysis is for this organization; call the agents most relevant to it:\n${describeProfile(profile)}`
+              : ""
+          }
+          If 'moralPhilosophy' ran, the synthesis summary must explicitly weigh its core moral trade-off against the other agents' risks.
+          ${
+            language !== "en"
+              ? `Write the synthesis summary in ${LanguageNames[language]}.`
+              : ""
+          }
+          If 'policyCompliance' ran, the synthesis summary must name every internal policy clause it found violated.
+          If an agent tool fails, do not retry it; proceed to synthesis with the remaining results and name the missing perspectives in the summary.
+          ${
+            roster
+              ? `The caller limited this analysis to these agents: ${rosterNames.join(", ")}.`
+              : ""
+          }
+          ${
+            requiredAgents.length
+              ? `These agents MUST be consulted: ${requiredAgents.join(", ")}.`
+              : ""
+          }
         `,
         messages: convertToModelMessages(messages),
         stopWhen: [stepCountIs(10)],
         toolChoice: "auto",
+        // Force any required agent the router has not called yet
+        prepareStep: ({ steps }) => {
+          const called = new Set(
+            steps.flatMap((s) => s.toolCalls.map((c) => c.toolName))
+          );
+          const pending = requiredAgents.find((a) => !called.has(a));
+          return pending
+            ? { toolChoice: { type: "tool", toolName: pending } }
+            : undefined;
+        },
         onError({ error }) {
           console.error("stream error:", error);
         },
+        onAbort() {
+          console.log(
+            `🛑 CANCELLED: ${timestamp} | Client: ${clientId} | Mode: auto`
+          );
+        },
       });
 
       writer.merge(result.toUIMessageStream());
 
-      (async () => {
+      await (async () => {
         const agentOutputs: AgentData[] = [];
+        const missing: MissingAgent[] = [];
         let synthesis: SynthesisData | null = null;
 
         for await (const part of result.fullStream) {
@@ -266,10 +653,22 @@ export async function POST(req: Request) {
               (part as ToolResultPart).result;
 
             if (part.toolName === "synthesis") {
-              const synth: SynthesisData =
-                typeof toolResult === "string"
-                  ? { summary: toolResult, agentsUsed: [], confidence: 0 }
-                  : (toolResult as SynthesisData);
+              const synth: SynthesisData = {
+                ...(typeof toolResult === "string"
+                  ? { summary: toolResult, agentsUsed: [] }
+                  : (toolResult as Pick<SynthesisData, "summary" | "agentsUsed">)),
+                ...assessConfidence({ agentOutputs, missing }),
+              };
+
+              if (roster) {
+                const allowed = new Set<string>(rosterNames);
+                synth.agentsUsed = synth.agentsUsed.filter((a) =>
+                  allowed.has(a)
+                );
+              }
+              if (missing.length) synth.missingAgents = [...missing];
+              const scorecard = buildScorecard(agentOutputs);
+              if (scorecard) synth.scorecard = scorecard;
 
               synthesis = synth;
 
@@ -278,15 +677,47 @@ export async function POST(req: Request) {
                 id: "synthesis",
                 data: synth,
               });
+            } else if (part.toolName === "generatePdfLog" && synthesis) {
+              // Rebuild the report from what was actually streamed; the router
+              // only passes summaries and knows nothing about the scorecard
+              const agentData: AgentData = {
+                tool: part.toolName,
+                output: `/api/log-pdf/${createPdfToken({
+                  decision: sanitized,
+                  jurisdictions,
+                  language,
+                  agentResults: Object.fromEntries(
+                    agentOutputs.map((a) => [a.tool, a.output ?? ""])
+                  ),
+                  clauses: collectClauses(agentOutputs),
+                  references: collectCitations(agentOutputs),
+                  synthesis,
+                  scorecard: synthesis.scorecard,
+                  usage: currentUsage()?.snapshot(),
+                  timestamp: new Date().toISOString(),
+                })}`,
+                status: "done",
+              };
+
+              agentOutputs.push(agentData);
+
+              writer.write({
+                type: "data-agent",
+                id: part.toolName,
+                data: agentData,
+              });
             } else {
-              const out =
-                typeof toolResult === "string"
-                  ? toolResult
-                  : JSON.stringify(toolResult);
+              const findings = parseFindings(toolResult);
+              const out = findings
+                ? renderFindings(findings)
+                : typeof toolResult === "string"
+                ? toolResult
+                : JSON.stringify(toolResult);
 
               const agentData: AgentData = {
                 tool: part.toolName,
                 output: out,
+                ...(findings ? { findings } : {}),
                 status: "done",
               };
 
@@ -298,19 +729,38 @@ export async function POST(req: Request) {
                 data: agentData,
               });
             }
+          } else if (part.type === "tool-error") {
+            console.error(`tool ${part.toolName} failed:`, part.error);
+            const { status, error } = describeFailure(part.error);
+            if (part.toolName !== "synthesis") {
+              missing.push({ agent: part.toolName, reason: error });
+            }
+
+            writer.write({
+              type: "data-agent",
+              id: part.toolName,
+              data: { tool: part.toolName, status, error },
+            });
           }
         }
 
-        // Cache the complete conversation flow
-        if (synthesis) {
+        // Cache the complete conversation flow (partial or cancelled results are not cached)
+        if (synthesis && !missing.length && !req.signal.aborted) {
           const conversationFlow = {
             agentOutputs,
             synthesis,
           };
-          await semanticCache.set(sanitized, conversationFlow);
+          await semanticCache.set(
+            decisionText,
+            conversationFlow,
+            cacheScope,
+            req.signal
+          );
         }
+
+        writeUsage(writer);
       })().catch(console.error);
-    },
+    }),
   });
 
   // Log successful request processing
@@ -319,7 +769,7 @@ export async function POST(req: Request) {
       rawUser.length
     } | Injection: ${
       injectionCheck.detected ? injectionCheck.riskLevel : "none"
-    }`
+    } | Language: ${language}`
   );
 
   const res = createUIMessageStreamResponse({ stream });
@@ -0,0 +1,162 @@
+import {
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+} from "ai";
+import { getClientId, checkMultipleLimits, rateHeaders } from "@/lib/rateLimit";
+import {
+  moderateText,
+  redactPII,
+  validateFollowUpInput,
+  detectPromptInjection,
+} from "@/lib/safety";
+import {
+  extractFollowUpContext,
+  followUpText,
+  isFollowUpTarget,
+  mapFollowUpContext,
+  streamFollowUpAnswer,
+} from "@/lib/followUp";
+import { detectLanguage, parseLanguage } from "@/lib/language";
+import { UsageMeter, runWithUsage, describeUsage } from "@/lib/usage";
+import type { MoralMessage } from "@/types/ai";
+
+export const maxDuration = 30;
+
+export async function POST(req: Request) {
+  // The answer is metered like an analysis, and its usage streamed with it
+  const usage = new UsageMeter();
+  return runWithUsage(usage, () => answerFollowUp(req, usage));
+}
+
+async function answerFollowUp(req: Request, usage: UsageMeter) {
+  const clientId = getClientId(req);
+  const timestamp = new Date().toISOString();
+
+  console.log(`🔍 FOLLOW_UP: ${timestamp} | Client: ${clientId}`);
+
+  const rl = await checkMultipleLimits(clientId, "followUp");
+
+  if (!rl.success) {
+    const limitType = rl.limits.daily.success ? "short-term" : "daily";
+
+    console.warn(
+      `🚫 RATE_LIMIT: ${timestamp} | Client: ${clientId} | Type: follow-up ${limitType} | Short: ${rl.limits.shortTerm.remaining}/${rl.limits.shortTerm.limit} | Daily: ${rl.limits.daily.remaining}/${rl.limits.daily.limit}`
+    );
+
+    return new Response(
+      JSON.stringify({
+        error: `Follow-up rate limit exceeded (${limitType}). Please try again later.`,
+      }),
+      { status: 429, headers: rateHeaders(rl) }
+    );
+  }
+
+  const fail = (error: string, extra?: Record<string, unknown>) => {
+    console.warn(
+      `❌ VALIDATION: ${timestamp} | Client: ${clientId} | Error: ${error}`
+    );
+    const res = new Response(JSON.stringify({ error, ...extra }), {
+      status: 400,
+    });
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  };
+
+  const {
+    messages,
+    followUp,
+    language: requestedLanguage,
+  }: {
+    messages: MoralMessage[];
+    followUp?: { target?: unknown };
+    language?: unknown;
+  } = await req.json();
+
+  if (!isFollowUpTarget(followUp?.target)) {
+    return fail("Unknown follow-up target.");
+  }
+  const languageCheck = parseLanguage(requestedLanguage);
+  if (!languageCheck.valid) return fail(languageCheck.error);
+
+  const validation = validateFollowUpInput(req, messages);
+  if (!validation.valid) {
+    return fail(validation.error ?? "Invalid follow-up.", {
+      details: validation.details,
+    });
+  }
+
+  const context = extractFollowUpContext(messages, followUp.target);
+  if (!context) {
+    return fail(
+      `The ${followUp.target} agent has no prior analysis to follow up on.`
+    );
+  }
+
+  // Answer in the analysis's language, as requested or as the decision was written
+  const language = languageCheck.language ?? detectLanguage(context.decision);
+
+  // Everything the client replays is checked, not just the new question
+  const patterns = new Set<string>();
+  const screened = mapFollowUpContext(context, (text) => {
+    const check = detectPromptInjection(text, [language]);
+    if (check.riskLevel === "high") {
+      check.patterns?.forEach((p) => patterns.add(p));
+    }
+    return check.sanitizedText || text;
+  });
+  if (patterns.size) {
+    console.error(
+      `🚨 HIGH_RISK_INJECTION: ${timestamp} | Client: ${clientId} | Patterns: ${[
+        ...patterns,
+      ].join(", ")} | Text: "${context.question.slice(0, 100)}..."`
+    );
+    return fail(
+      "Your question or the analysis it follows contains suspicious patterns that may be attempting to manipulate the AI. Please rephrase it.",
+      { patterns: [...patterns] }
+    );
+  }
+
+  const moderation = await moderateText(followUpText(screened));
+  if (!moderation.allowed) {
+    console.warn(
+      `⚠️ MODERATION: ${timestamp} | Client: ${clientId} | Categories: ${JSON.stringify(
+        moderation.categories
+      )}`
+    );
+    return fail(
+      "Your question or the analysis it follows appears to violate our safety policy. Please rephrase it.",
+      { categories: moderation.categories ?? null }
+    );
+  }
+
+  const stream = createUIMessageStream<MoralMessage>({
+    // Stream callbacks stay on this request's meter wherever the SDK runs them
+    execute: ({ writer }) =>
+      runWithUsage(usage, async () => {
+        await streamFollowUpAnswer({
+          context: mapFollowUpContext(screened, redactPII),
+          language,
+          writer,
+          abortSignal: req.signal,
+        });
+
+        const data = usage.snapshot();
+        console.log(
+          `💰 USAGE: ${timestamp} | Client: ${clientId} | ${describeUsage(data)}`
+        );
+        writer.write({ type: "data-usage", id: "usage", data });
+      }),
+    onError(error) {
+      console.error("follow-up error:", error);
+      return "The follow-up could not be answered. Please try again.";
+    },
+  });
+
+  console.log(
+    `✅ SUCCESS: ${timestamp} | Client: ${clientId} | Follow-up: ${followUp.target} | Thread: ${context.thread.length}`
+  );
+
+  const res = createUIMessageStreamResponse({ stream });
+  rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+  return res;
+}
@@ -0,0 +1,148 @@
+import {
+  getClientId,
+  checkMultipleLimits,
+  rateHeaders,
+  type MultiLimitResult,
+} from "@/lib/rateLimit";
+import { detectPromptInjection, moderateText } from "@/lib/safety";
+import {
+  isProfileAdmin,
+  loadProfile,
+  saveProfile,
+  deleteProfile,
+  parseProfile,
+} from "@/lib/profile";
+import { parseLanguage } from "@/lib/language";
+import type { OrgProfile } from "@/types/ai";
+
+export const runtime = "nodejs";
+
+/** 401 for PUT/DELETE without the admin token (see isProfileAdmin). */
+function unauthorized(
+  clientId: string,
+  timestamp: string,
+  rl: MultiLimitResult
+) {
+  console.warn(
+    `🚫 UNAUTHORIZED: ${timestamp} | Client: ${clientId} | Profile change without admin token`
+  );
+  return new Response(
+    JSON.stringify({
+      error: "Changing the organization profile requires the admin token.",
+    }),
+    { status: 401, headers: rateHeaders(rl) }
+  );
+}
+
+/** The saved organization profile for the settings panel. */
+export async function GET() {
+  const profile: OrgProfile | null = await loadProfile();
+  return Response.json({ profile });
+}
+
+/** Replace the organization profile every analysis is tailored to. */
+export async function PUT(req: Request) {
+  const clientId = getClientId(req);
+  const timestamp = new Date().toISOString();
+
+  const rl = await checkMultipleLimits(clientId, "profile");
+  if (!rl.success) {
+    const limitType = rl.limits.daily.success ? "short-term" : "daily";
+    console.warn(
+      `🚫 RATE_LIMIT: ${timestamp} | Client: ${clientId} | Type: profile ${limitType}`
+    );
+    return new Response(
+      JSON.stringify({
+        error: `Profile rate limit exceeded (${limitType}). Please try again later.`,
+      }),
+      { status: 429, headers: rateHeaders(rl) }
+    );
+  }
+  if (!isProfileAdmin(req)) return unauthorized(clientId, timestamp, rl);
+
+  const fail = (error: string, extra?: Record<string, unknown>) => {
+    console.warn(
+      `❌ VALIDATION: ${timestamp} | Client: ${clientId} | Error: ${error}`
+    );
+    const res = new Response(JSON.stringify({ error, ...extra }), {
+      status: 400,
+    });
+    rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+    return res;
+  };
+
+  const body: { profile?: unknown; language?: unknown } = await req
+    .json()
+    .catch(() => ({}));
+  const parsed = parseProfile(body.profile);
+  if (!parsed.valid) return fail(parsed.error);
+  const { profile } = parsed;
+  const languageCheck = parseLanguage(body.language);
+  if (!languageCheck.valid) return fail(languageCheck.error);
+
+  // The profile goes into every agent's system prompt, so nothing suspicious is kept
+  const text = [
+    profile.name,
+    profile.industry,
+    profile.size,
+    ...profile.regions,
+    ...profile.values,
+    profile.notes,
+  ]
+    .filter(Boolean)
+    .join("\n");
+  // The UI's language adds its role markers; detection alone may miss it
+  const injection = detectPromptInjection(
+    text,
+    languageCheck.language ? [languageCheck.language] : []
+  );
+  if (injection.detected) {
+    return fail(
+      "The profile contains patterns that may be attempting to manipulate the AI. Please rephrase it.",
+      { patterns: injection.patterns }
+    );
+  }
+  const moderation = await moderateText(text);
+  if (!moderation.allowed) {
+    console.warn(
+      `⚠️ MODERATION: ${timestamp} | Client: ${clientId} | Categories: ${JSON.stringify(
+        moderation.categories
+      )}`
+    );
+    return fail(
+      "The profile appears to violate our safety policy. Please rephrase it.",
+      { categories: moderation.categories ?? null }
+    );
+  }
+
+  await saveProfile(profile);
+  console.log(`✅ PROFILE: ${timestamp} | Client: ${clientId} | Saved`);
+
+  const res = Response.json({ profile });
+  rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+  return res;
+}
+
+/** Clear the profile; analyses go back to being organization-neutral. */
+export async function DELETE(req: Request) {
+  const clientId = getClientId(req);
+  const timestamp = new Date().toISOString();
+
+  const rl = await checkMultipleLimits(clientId, "profile");
+  if (!rl.success) {
+    return new Response(
+      JSON.stringify({
+        error: "Profile rate limit exceeded. Please try again later.",
+      }),
+      { status: 429, headers: rateHeaders(rl) }
+    );
+  }
+  if (!isProfileAdmin(req)) return unauthorized(clientId, timestamp, rl);
+
+  await deleteProfile();
+  console.log(`✅ PROFILE: ${timestamp} | Client: ${clientId} | Cleared`);
+
+  const res = Response.json({ profile: null });
+  rateHeaders(rl).forEach((v, k) => res.headers.set(k, v));
+  return res;
+}
@@ -1,46 +1,144 @@
 "use client";
 
-import { useMemo, useState, useCallback } from "react";
+import { useMemo, useState, useCallback, useEffect } from "react";
 import { useChat } from "@ai-sdk/react";
 import { DefaultChatTransport } from "ai";
-import type { MoralMessage, AgentData, SynthesisData } from "@/types/ai";
+import type {
+  MoralMessage,
+  AgentData,
+  SynthesisData,
+  FollowUpData,
+  DebateData,
+  ClarificationAnswer,
+  ClarificationData,
+  ComparisonData,
+  ComparisonOption,
+  OrchestrationMode,
+  AgentRoster,
+  UsageData,
+  UsageLine,
+  AgentFindings,
+  AgentRisk,
+  RiskScorecard,
+  ConfidenceFactor,
+  EthicsAnalysis,
+  FrameworkVerdict,
+  AgentSummary,
+  AgentName,
+  OrgProfile,
+  RiskAppetite,
+  PolicyClause,
+  Citation,
+  Language,
+} from "@/types/ai";
+
+type AgentPreference = "required" | "excluded";
+
+// Mirrors INPUT_LIMITS.MAX_FOLLOW_UPS on the server
+const MAX_FOLLOW_UPS = 5;
+
+// Output languages, in their own names; "auto" answers in the decision's language
+const LANGUAGE_OPTIONS: { value: Language | "auto"; label: string }[] = [
+  { value: "auto", label: "Auto-detect" },
+  { value: "en", label: "English" },
+  { value: "de", label: "Deutsch" },
+  { value: "fr", label: "Français" },
+  { value: "es", label: "Español" },
+  { value: "it", label: "Italiano" },
+];
 
 export default function MoralCompassPage() {
   const [input, setInput] = useState("");
+  const [mode, setMode] = useState<OrchestrationMode>("auto");
+  const [debate, setDebate] = useState(false);
+  const [compare, setCompare] = useState(false);
+  const [options, setOptions] = useState<ComparisonOption[]>([
+    { name: "" },
+    { name: "" },
+  ]);
+  const [agentPrefs, setAgentPrefs] = useState<
+    Partial<Record<AgentName, AgentPreference>>
+  >({});
+  const [jurisdictionText, setJurisdictionText] = useState("");
+  const [language, setLanguage] = useState<Language | "auto">("auto");
+  const [cancelled, setCancelled] = useState(false);
+  const [agents, setAgents] = useState<AgentSummary[]>([]);
 
-  const { messages, sendMessage, setMessages, status, error } =
+  // The roster is defined on the server (agents/*.json)
+  useEffect(() => {
+    fetch("/api/agents")
+      .then((res) => res.json())
+      .then((body: { agents: AgentSummary[] }) => setAgents(body.agents))
+      .catch(console.error);
+  }, []);
+
+  const { messages, sendMessage, setMessages, status, error, stop } =
     useChat<MoralMessage>({
-      transport: new DefaultChatTransport({ api: "/api/decision" }),
+      transport: new DefaultChatTransport({
+        api: "/api/decision",
+        // Follow-up questions replay the conversation to their own endpoint
+        prepareSendMessagesRequest: ({ id, messages, body, api }) => ({
+          api: body?.followUp ? "/api/follow-up" : api,
+          body: { id, messages, ...body },
+        }),
+      }),
     });
 
-  const lastAi = useMemo(
-    () => [...messages].reverse().find((m) => m.role === "assistant"),
+  // The analysis and any follow-up answers span several assistant messages
+  const assistantParts = useMemo(
+    () =>
+      messages.filter((m) => m.role === "assistant").flatMap((m) => m.parts),
     [messages]
   );
 
   const agentParts = useMemo(() => {
-    const parts = (lastAi?.parts ?? []).filter(
+    const parts = assistantParts.filter(
       (p): p is { type: "data-agent"; data: AgentData } =>
         p.type === "data-agent" && p.data?.tool !== "synthesis"
     );
 
     const agentMap = new Map<string, AgentData>();
     for (const part of parts) {
-      agentMap.set(part.data.tool, part.data);
+      agentMap.set(
+        part.data.tool,
+        cancelled && part.data.status === "running"
+          ? { ...part.data, status: "cancelled" }
+          : part.data
+      );
     }
 
     return Array.from(agentMap.values());
-  }, [lastAi]);
+  }, [assistantParts, cancelled]);
 
   const synthesis =
     (
-      lastAi?.parts.find((p) => p.type === "data-synthesis") as
+      assistantParts.find((p) => p.type === "data-synthesis") as
         | { type: "data-synthesis"; data: SynthesisData }
         | undefined
     )?.data ?? null;
 
+  const followUps = useMemo(() => {
+    const byTarget = new Map<string, FollowUpData[]>();
+    for (const p of assistantParts) {
+      if (p.type !== "data-followup") continue;
+      const thread = byTarget.get(p.data.target) ?? [];
+      byTarget.set(p.data.target, [...thread, p.data]);
+    }
+    return byTarget;
+  }, [assistantParts]);
+
+  const debateParts = useMemo(() => {
+    const debateMap = new Map<string, DebateData>();
+    for (const p of assistantParts) {
+      if (p.type === "data-debate") debateMap.set(p.data.agent, p.data);
+    }
+    return Array.from(debateMap.values());
+  }, [assistantParts]);
+
+  const followUpsUsed = messages.filter((m) => m.role === "user").length - 1;
+
   const synthesisIsRunning = useMemo(() => {
-    const parts = lastAi?.parts ?? [];
+    const parts = assistantParts;
 
     const isRunning = parts.some(
       (p) =>
@@ -51,23 +149,183 @@ export default function MoralCompassPage() {
 
     const isDone = parts.some((p) => p.type === "data-synthesis");
 
-    return isRunning && !isDone;
-  }, [lastAi]);
+    return isRunning && !isDone && !cancelled;
+  }, [assistantParts, cancelled]);
+
+  const synthesisError = useMemo(() => {
+    const part = assistantParts.find(
+      (p): p is { type: "data-agent"; data: AgentData } =>
+        p.type === "data-agent" && p.data?.tool === "synthesis"
+    );
+    return part && part.data.error ? part.data.error : null;
+  }, [assistantParts]);
 
   const isBusy = status === "submitted" || status === "streaming";
 
+  // Only send a roster once the user has touched a chip
+  const roster = useMemo<AgentRoster | undefined>(() => {
+    if (Object.keys(agentPrefs).length === 0) return undefined;
+    return agents
+      .map((a) => a.name)
+      .filter((a) => agentPrefs[a] !== "excluded")
+      .map((name) => ({ name, required: agentPrefs[name] === "required" }));
+  }, [agents, agentPrefs]);
+
+  const namedOptions = useMemo(
+    () =>
+      options
+        .filter((o) => o.name.trim())
+        .map((o) => ({
+          name: o.name.trim(),
+          ...(o.description?.trim()
+            ? { description: o.description.trim() }
+            : {}),
+        })),
+    [options]
+  );
+  const comparisonOptions = compare ? namedOptions : undefined;
+
+  // "EU, US-CA" -> ["EU", "US-CA"]; the server validates and normalizes
+  const jurisdictions = useMemo(() => {
+    const list = jurisdictionText
+      .split(",")
+      .map((j) => j.trim())
+      .filter(Boolean);
+    return list.length ? list : undefined;
+  }, [jurisdictionText]);
+
+  const updateOption = (i: number, patch: Partial<ComparisonOption>) =>
+    setOptions((prev) =>
+      prev.map((o, j) => (j === i ? { ...o, ...patch } : o))
+    );
+
+  const cycleAgentPref = (agent: AgentName) =>
+    setAgentPrefs((prev) => {
+      const next = { ...prev };
+      if (!prev[agent]) next[agent] = "required";
+      else if (prev[agent] === "required") next[agent] = "excluded";
+      else delete next[agent];
+      return next;
+    });
+
+  const comparison =
+    (
+      assistantParts.find((p) => p.type === "data-comparison") as
+        | { type: "data-comparison"; data: ComparisonData }
+        | undefined
+    )?.data ?? null;
+
+  // The analysis and every follow-up answer report their own usage
+  const usage = useMemo(
+    () =>
+      sumUsage(
+        assistantParts
+          .filter(
+            (p): p is { type: "data-usage"; data: UsageData } =>
+              p.type === "data-usage"
+          )
+          .map((p) => p.data)
+      ),
+    [assistantParts]
+  );
+
+  const clarification =
+    (
+      assistantParts.find((p) => p.type === "data-clarification") as
+        | { type: "data-clarification"; data: ClarificationData }
+        | undefined
+    )?.data ?? null;
+
+  const runDecision = useCallback(
+    async (text: string, clarifications?: ClarificationAnswer[]) => {
+      // Clear previous conversation for fresh prompt
+      setMessages([]);
+      setCancelled(false);
+
+      await sendMessage(
+        { text },
+        {
+          body: {
+            mode,
+            agents: roster,
+            debate,
+            clarifications,
+            options: comparisonOptions,
+            jurisdictions,
+            language,
+          },
+        }
+      );
+    },
+    [
+      mode,
+      roster,
+      debate,
+      comparisonOptions,
+      jurisdictions,
+      language,
+      sendMessage,
+      setMessages,
+    ]
+  );
+
+  // Aborting the fetch aborts the request signal, which cancels every agent
+  const onStop = useCallback(async () => {
+    setCancelled(true);
+    await stop();
+  }, [stop]);
+
   const onSubmit = useCallback(
     async (e?: React.FormEvent) => {
       if (e) e.preventDefault();
       if (!input.trim() || isBusy) return;
 
-      // Clear previous conversation for fresh prompt
-      setMessages([]);
-
-      await sendMessage({ text: input.trim() });
+      await runDecision(input.trim());
       setInput("");
     },
-    [input, isBusy, sendMessage, setMessages]
+    [input, isBusy, runDecision]
+  );
+
+  // Append answers to the original decision and resubmit without re-asking
+  const onClarify = useCallback(
+    async (answers: Record<string, string>) => {
+      if (!clarification || isBusy) return;
+      const decisionMessage = messages.find((m) => m.role === "user");
+      const decision = (decisionMessage?.parts ?? [])
+        .map((p) => (p.type === "text" ? p.text : ""))
+        .join("\n")
+        .trim();
+      const answered = clarification.questions
+        .filter((q) => answers[q.id]?.trim())
+        .map((q) => ({
+          question: q.question.trim(),
+          answer: answers[q.id].trim(),
+        }));
+      // Same rendering as describeClarifications on the server, which only
+      // allows the extra length when the answers end the decision text
+      const context = answered
+        .map((a) => `- ${a.question} ${a.answer}`)
+        .join("\n");
+
+      await runDecision(
+        context ? `${decision}\n\nAdditional context:\n${context}` : decision,
+        answered
+      );
+    },
+    [clarification, isBusy, messages, runDecision]
+  );
+
+  const canAskFollowUp = !isBusy && followUpsUsed < MAX_FOLLOW_UPS;
+
+  const askFollowUp = useCallback(
+    async (target: string, question: string) => {
+      if (!question.trim() || !canAskFollowUp) return;
+      await sendMessage(
+        { text: question.trim() },
+        { body: { followUp: { target }, language } }
+      );
+    },
+    [canAskFollowUp, language, sendMessage]
   );
 
   const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -78,6 +336,7 @@ export default function MoralCompassPage() {
   };
 
   const formatToolName = (tool: string) =>
+    agents.find((a) => a.name === tool)?.label ??
     tool.replace(/([A-Z])/g, " $1").replace(/^./, (s) => s.toUpperCase());
 
   return (
@@ -99,6 +358,7 @@ export default function MoralCompassPage() {
           </div>
         </div>
       </section>
+      <ProfilePanel disabled={isBusy} language={language} />
       <section className="mt-8">
         <div className="rounded-2xl border bg-white shadow-sm dark:bg-neutral-900 dark:border-neutral-800">
           <div className="px-5 pt-5 pb-3 flex items-center justify-between">
@@ -148,13 +408,172 @@ export default function MoralCompassPage() {
                     💼 Workforce
                   </button>
                 </div>
+                {compare && (
+                  <div className="space-y-2 rounded-xl border border-neutral-200 p-3 dark:border-neutral-800">
+                    <div className="text-xs text-neutral-500">
+                      Options to compare (2–4):
+                    </div>
+                    {options.map((o, i) => (
+                      <div key={i} className="flex gap-2">
+                        <input
+                          value={o.name}
+                          onChange={(e) =>
+                            updateOption(i, { name: e.target.value })
+                          }
+                          placeholder={`Option ${String.fromCharCode(65 + i)}`}
+                          maxLength={60}
+                          disabled={isBusy}
+                          className="w-40 rounded-lg border border-neutral-200 bg-white px-2.5 py-1.5 text-sm text-neutral-900 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-100"
+                        />
+                        <input
+                          value={o.description ?? ""}
+                          onChange={(e) =>
+                            updateOption(i, { description: e.target.value })
+                          }
+                          placeholder="Short description (optional)"
+                          maxLength={300}
+                          disabled={isBusy}
+                          className="flex-1 rounded-lg border border-neutral-200 bg-white px-2.5 py-1.5 text-sm text-neutral-900 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-100"
+                        />
+                        {options.length > 2 && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setOptions((prev) =>
+                                prev.filter((_, j) => j !== i)
+                              )
+                            }
+                            disabled={isBusy}
+                            aria-label="Remove option"
+                            className="rounded-lg border border-neutral-200 px-2 text-xs text-neutral-500 hover:bg-neutral-50 disabled:opacity-60 dark:border-neutral-700"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {options.length < 4 && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setOptions((prev) => [...prev, { name: "" }])
+                        }
+                        disabled={isBusy}
+                        className="text-xs text-indigo-600 underline underline-offset-2 hover:text-indigo-700 disabled:opacity-60"
+                      >
+                        + Add option
+                      </button>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-neutral-500">Agents:</span>
+                  {agents.map(({ name, label }) => (
+                    <AgentChip
+                      key={name}
+                      label={label}
+                      preference={agentPrefs[name]}
+                      onClick={() => cycleAgentPref(name)}
+                      disabled={isBusy}
+                    />
+                  ))}
+                  {roster && (
+                    <button
+                      type="button"
+                      onClick={() => setAgentPrefs({})}
+                      disabled={isBusy}
+                      className="text-xs text-indigo-600 underline underline-offset-2 hover:text-indigo-700 disabled:opacity-60"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <label
+                    htmlFor="jurisdictions"
+                    className="text-xs text-neutral-500"
+                  >
+                    Jurisdictions:
+                  </label>
+                  <input
+                    id="jurisdictions"
+                    value={jurisdictionText}
+                    onChange={(e) => setJurisdictionText(e.target.value)}
+                    placeholder="e.g. EU, UK, US-CA, US-NY (optional)"
+                    maxLength={200}
+                    disabled={isBusy}
+                    title="Law, DEI, environment, privacy and AI risk agents break their risks down by these"
+                    className="flex-1 min-w-[12rem] rounded-lg border border-neutral-200 bg-white px-2.5 py-1 text-xs text-neutral-900 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-100"
+                  />
+                  <label htmlFor="language" className="text-xs text-neutral-500">
+                    Language:
+                  </label>
+                  <select
+                    id="language"
+                    value={language}
+                    onChange={(e) =>
+                      setLanguage(e.target.value as Language | "auto")
+                    }
+                    disabled={isBusy}
+                    title="Language of the agents' findings, synthesis and report"
+                    className="rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs text-neutral-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-100"
+                  >
+                    {LANGUAGE_OPTIONS.map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div className="flex items-center justify-between">
-                  <p className="text-xs text-neutral-500">
-                    Be specific about constraints, stakeholders, and risks.
-                  </p>
+                  <div className="flex items-center gap-3">
+                    <p className="text-xs text-neutral-500">
+                      Be specific about constraints, stakeholders, and risks.
+                    </p>
+                    <label className="inline-flex items-center gap-1.5 text-xs text-neutral-600 dark:text-neutral-300">
+                      <input
+                        type="checkbox"
+                        checked={mode === "parallel" || debate}
+                        onChange={(e) =>
+                          setMode(e.target.checked ? "parallel" : "auto")
+                        }
+                        disabled={isBusy || debate}
+                        className="accent-indigo-600"
+                      />
+                      Run all relevant agents in parallel
+                    </label>
+                    <label
+                      className="inline-flex items-center gap-1.5 text-xs text-neutral-600 dark:text-neutral-300"
+                      title="Agents challenge each other's findings before synthesis (runs in parallel mode)"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={debate}
+                        onChange={(e) => setDebate(e.target.checked)}
+                        disabled={isBusy}
+                        className="accent-indigo-600"
+                      />
+                      Cross-examine
+                    </label>
+                    <label className="inline-flex items-center gap-1.5 text-xs text-neutral-600 dark:text-neutral-300">
+                      <input
+                        type="checkbox"
+                        checked={compare}
+                        onChange={(e) => setCompare(e.target.checked)}
+                        disabled={isBusy}
+                        className="accent-indigo-600"
+                      />
+                      Compare options
+                    </label>
+                  </div>
                   <button
                     type="submit"
-                    disabled={isBusy || !input.trim()}
+                    disabled={
+                      isBusy ||
+                      !input.trim() ||
+                      roster?.length === 0 ||
+                      (compare && namedOptions.length < 2)
+                    }
                     className="inline-flex items-center gap-2 rounded-xl bg-indigo-600 px-4 py-2 text-white shadow-sm transition hover:bg-indigo-700 disabled:opacity-60 disabled:hover:bg-indigo-600"
                   >
                     {isBusy ? (
@@ -169,6 +588,16 @@ export default function MoralCompassPage() {
                       </>
                     )}
                   </button>
+                  {isBusy && (
+                    <button
+                      type="button"
+                      onClick={onStop}
+                      className="inline-flex items-center gap-2 rounded-xl border border-neutral-300 bg-white px-4 py-2 text-neutral-700 shadow-sm transition hover:bg-neutral-50 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-200"
+                    >
+                      <span>■</span>
+                      <span>Stop</span>
+                    </button>
+                  )}
                 </div>
               </div>
             </form>
@@ -186,7 +615,23 @@ export default function MoralCompassPage() {
           </div>
         </div>
       )}
+      {cancelled && !isBusy && (
+        <div className="mt-6 rounded-2xl border border-neutral-200 bg-neutral-50 p-4 text-sm text-neutral-700 dark:bg-neutral-900 dark:border-neutral-800 dark:text-neutral-300">
+          ■ Analysis stopped. Partial results are shown below and were not
+          cached.
+        </div>
+      )}
+      {clarification && (
+        <ClarificationForm
+          key={messages[0]?.id}
+          clarification={clarification}
+          disabled={isBusy}
+          onSubmit={onClarify}
+        />
+      )}
       {!error &&
+        !clarification &&
+        !comparison &&
         agentParts.length === 0 &&
         !synthesis &&
         !synthesisIsRunning && (
@@ -198,6 +643,12 @@ export default function MoralCompassPage() {
             </p>
           </div>
         )}
+      {comparison && (
+        <ComparisonMatrix
+          comparison={comparison}
+          formatToolName={formatToolName}
+        />
+      )}
       {agentParts.length > 0 && (
         <section className="mt-8">
           <div className="mb-3 flex items-center gap-2">
@@ -212,6 +663,28 @@ export default function MoralCompassPage() {
                 key={agent.tool}
                 agent={agent}
                 formatToolName={formatToolName}
+                followUps={followUps.get(agent.tool) ?? []}
+                canAsk={canAskFollowUp}
+                onAsk={(q) => askFollowUp(agent.tool, q)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+      {debateParts.length > 0 && (
+        <section className="mt-8">
+          <div className="mb-3 flex items-center gap-2">
+            <h3 className="text-xs font-semibold tracking-wide text-neutral-500 uppercase">
+              Cross-examination
+            </h3>
+            <div className="h-px flex-1 bg-neutral-200 dark:bg-neutral-800" />
+          </div>
+          <div className="space-y-3">
+            {debateParts.map((d) => (
+              <DebateCard
+                key={d.agent}
+                debate={d}
+                formatToolName={formatToolName}
               />
             ))}
           </div>
@@ -228,6 +701,12 @@ export default function MoralCompassPage() {
           </p>
         </div>
       )}
+      {synthesisError && !synthesis && (
+        <div className="mt-6 rounded-2xl border border-red-200 bg-red-50 p-4 text-red-900">
+          <div className="font-medium">⚠️ Synthesis failed</div>
+          <p className="mt-1 text-sm">{synthesisError}</p>
+        </div>
+      )}
       {synthesis && (
         <section className="mt-8">
           <div className="rounded-2xl border border-green-200 bg-white p-5 shadow-sm dark:bg-neutral-900 dark:border-green-900/40">
@@ -241,6 +720,18 @@ export default function MoralCompassPage() {
             <p className="mt-3 whitespace-pre-wrap leading-relaxed text-neutral-800 dark:text-neutral-200">
               {synthesis.summary}
             </p>
+            {synthesis.missingAgents && synthesis.missingAgents.length > 0 && (
+              <div className="mt-3 rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-900 dark:bg-red-950/20 dark:border-red-900/40 dark:text-red-200">
+                <div className="font-medium">Missing perspectives</div>
+                <ul className="mt-1 list-disc pl-5">
+                  {synthesis.missingAgents.map((m) => (
+                    <li key={m.agent}>
+                      {formatToolName(m.agent)}: {m.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <div className="mt-4 grid gap-4 md:grid-cols-2">
               <div>
                 <div className="text-xs text-neutral-500 mb-1">Agents used</div>
@@ -255,15 +746,35 @@ export default function MoralCompassPage() {
                   ))}
                 </div>
               </div>
-              <div>
-                <div className="text-xs text-neutral-500 mb-1">Confidence</div>
+              <div className="group relative">
+                <div className="text-xs text-neutral-500 mb-1">
+                  Confidence
+                  {synthesis.confidenceFactors && (
+                    <span className="ml-1 cursor-help">ⓘ</span>
+                  )}
+                </div>
                 <ProgressBar value={Math.round(synthesis.confidence * 100)} />
+                {synthesis.confidenceFactors && (
+                  <ConfidenceBreakdown factors={synthesis.confidenceFactors} />
+                )}
               </div>
             </div>
+            {synthesis.scorecard && (
+              <ScorecardChart scorecard={synthesis.scorecard} />
+            )}
+            <FollowUpThread
+              followUps={followUps.get("synthesis") ?? []}
+              canAsk={canAskFollowUp}
+              onAsk={(q) => askFollowUp("synthesis", q)}
+            />
           </div>
         </section>
       )}
 
+      {usage && (
+        <UsageFooter usage={usage} formatToolName={formatToolName} />
+      )}
+
       <footer className="mt-10 text-center text-xs text-neutral-500">
         Built with ✦ care. Your prompts are processed securely.
       </footer>
@@ -274,9 +785,15 @@ export default function MoralCompassPage() {
 function AgentCard({
   agent,
   formatToolName,
+  followUps,
+  canAsk,
+  onAsk,
 }: {
   agent: AgentData;
   formatToolName: (tool: string) => string;
+  followUps: FollowUpData[];
+  canAsk: boolean;
+  onAsk: (question: string) => Promise<void>;
 }) {
   const running = agent.status === "running";
   const hasOutput = Boolean(agent.output && String(agent.output).length > 0);
@@ -314,18 +831,726 @@ function AgentCard({
               <span>📄</span>
               <span>Download Decision Log (PDF)</span>
             </a>
+          ) : agent.findings ? (
+            <FindingsView
+              findings={agent.findings}
+              text={String(agent.output)}
+              anchor={`sources-${agent.tool}`}
+            />
           ) : (
             <OutputBlock text={String(agent.output)} />
           )
+        ) : agent.error ? (
+          <p className="text-sm text-red-700 dark:text-red-300">
+            This perspective is missing: {agent.error}
+          </p>
         ) : (
           <p className="text-sm text-neutral-500">No output yet.</p>
         )}
       </div>
+      {hasOutput && !isPdfLink && (
+        <FollowUpThread followUps={followUps} canAsk={canAsk} onAsk={onAsk} />
+      )}
+    </div>
+  );
+}
+
+/** Add up usage reports, merging lines for the same role and model. */
+function sumUsage(reports: UsageData[]): UsageData | null {
+  if (reports.length <= 1) return reports[0] ?? null;
+
+  const lines = new Map<string, UsageLine>();
+  for (const l of reports.flatMap((r) => r.lines)) {
+    const key = `${l.role}|${l.model}`;
+    const line = lines.get(key);
+    lines.set(
+      key,
+      line
+        ? {
+            ...line,
+            calls: line.calls + l.calls,
+            inputTokens: line.inputTokens + l.inputTokens,
+            outputTokens: line.outputTokens + l.outputTokens,
+            embeddingTokens: line.embeddingTokens + l.embeddingTokens,
+            cost: line.cost + l.cost,
+          }
+        : l
+    );
+  }
+  const sum = (f: (t: UsageData["totals"]) => number) =>
+    reports.reduce((n, r) => n + f(r.totals), 0);
+  const unpriced = new Set(reports.flatMap((r) => r.unpricedModels ?? []));
+  return {
+    lines: [...lines.values()],
+    totals: {
+      calls: sum((t) => t.calls),
+      inputTokens: sum((t) => t.inputTokens),
+      outputTokens: sum((t) => t.outputTokens),
+      embeddingTokens: sum((t) => t.embeddingTokens),
+      cost: sum((t) => t.cost),
+    },
+    currency: "USD",
+    ...(unpriced.size ? { unpricedModels: [...unpriced] } : {}),
+  };
+}
+
+function UsageFooter({
+  usage,
+  formatToolName,
+}: {
+  usage: UsageData;
+  formatToolName: (tool: string) => string;
+}) {
+  const { totals } = usage;
+  const cost = (n: number) => `$${n < 0.01 && n > 0 ? n.toFixed(5) : n.toFixed(2)}`;
+
+  return (
+    <details className="mt-8 rounded-2xl border bg-white p-4 text-sm shadow-sm dark:bg-neutral-900 dark:border-neutral-800">
+      <summary className="cursor-pointer select-none text-neutral-600 dark:text-neutral-300">
+        Usage: {cost(totals.cost)} · {totals.inputTokens + totals.outputTokens}{" "}
+        tokens · {totals.calls} calls
+      </summary>
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-neutral-100 text-left text-neutral-500 dark:border-neutral-800">
+              <th className="py-1 pr-3 font-medium">Role</th>
+              <th className="py-1 pr-3 font-medium">Model</th>
+              <th className="py-1 pr-3 text-right font-medium">Calls</th>
+              <th className="py-1 pr-3 text-right font-medium">In</th>
+              <th className="py-1 pr-3 text-right font-medium">Out</th>
+              <th className="py-1 pr-3 text-right font-medium">Embedding</th>
+              <th className="py-1 text-right font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.lines.map((l) => (
+              <tr
+                key={`${l.role}-${l.model}`}
+                className="border-b border-neutral-50 text-neutral-700 dark:border-neutral-800/60 dark:text-neutral-300"
+              >
+                <td className="py-1 pr-3">{formatToolName(l.role)}</td>
+                <td className="py-1 pr-3 text-neutral-500">{l.model}</td>
+                <td className="py-1 pr-3 text-right">{l.calls}</td>
+                <td className="py-1 pr-3 text-right">{l.inputTokens}</td>
+                <td className="py-1 pr-3 text-right">{l.outputTokens}</td>
+                <td className="py-1 pr-3 text-right">{l.embeddingTokens}</td>
+                <td className="py-1 text-right">{cost(l.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {usage.unpricedModels && (
+        <p className="mt-2 text-xs text-neutral-500">
+          No price configured for {usage.unpricedModels.join(", ")}; counted
+          as $0.
+        </p>
+      )}
+    </details>
+  );
+}
+
+function ComparisonMatrix({
+  comparison,
+  formatToolName,
+}: {
+  comparison: ComparisonData;
+  formatToolName: (tool: string) => string;
+}) {
+  const agents = Array.from(new Set(comparison.cells.map((c) => c.agent)));
+  const scoreStyle = (score: number) =>
+    score >= 7
+      ? "bg-green-50 text-green-800 dark:bg-green-950/30 dark:text-green-200"
+      : score >= 4
+      ? "bg-amber-50 text-amber-800 dark:bg-amber-950/30 dark:text-amber-200"
+      : "bg-red-50 text-red-800 dark:bg-red-950/30 dark:text-red-200";
+
+  return (
+    <section className="mt-8">
+      <div className="mb-3 flex items-center gap-2">
+        <h3 className="text-xs font-semibold tracking-wide text-neutral-500 uppercase">
+          Comparison
+        </h3>
+        <div className="h-px flex-1 bg-neutral-200 dark:bg-neutral-800" />
+        {comparison.status === "running" && <Spinner className="h-3.5 w-3.5" />}
+      </div>
+      <div className="overflow-x-auto rounded-2xl border bg-white shadow-sm dark:bg-neutral-900 dark:border-neutral-800">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-neutral-100 dark:border-neutral-800">
+              <th className="px-3 py-2 text-left text-xs font-medium text-neutral-500">
+                Agent
+              </th>
+              {comparison.options.map((o) => (
+                <th
+                  key={o.name}
+                  title={o.description}
+                  className="px-3 py-2 text-left text-xs font-semibold text-neutral-800 dark:text-neutral-100"
+                >
+                  {o.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {agents.map((agent) => {
+              const winner = comparison.dimensionWinners.find(
+                (w) => w.agent === agent
+              )?.option;
+              return (
+                <tr
+                  key={agent}
+                  className="border-b border-neutral-100 last:border-0 dark:border-neutral-800"
+                >
+                  <td className="px-3 py-2 text-neutral-700 dark:text-neutral-300">
+                    {formatToolName(agent)}
+                  </td>
+                  {comparison.options.map((o) => {
+                    const cell = comparison.cells.find(
+                      (c) => c.agent === agent && c.option === o.name
+                    );
+                    return (
+                      <td key={o.name} className="px-3 py-2">
+                        {cell && cell.score !== null && !cell.missing ? (
+                          <span
+                            title={cell.summary}
+                            className={[
+                              "inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-medium tabular-nums",
+                              scoreStyle(cell.score),
+                            ].join(" ")}
+                          >
+                            {cell.score}/10
+                            {winner === o.name && <span>★</span>}
+                          </span>
+                        ) : (
+                          <span
+                            title={cell?.summary}
+                            className="text-xs text-neutral-400"
+                          >
+                            —
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {comparison.ranking && (
+        <ol className="mt-3 space-y-1.5 text-sm">
+          {comparison.ranking.map((r, i) => (
+            <li key={r.option} className="flex gap-2">
+              <span className="font-semibold tabular-nums text-neutral-500">
+                {i + 1}.
+              </span>
+              <span>
+                <span className="font-semibold text-neutral-800 dark:text-neutral-100">
+                  {r.option}
+                </span>{" "}
+                <span className="text-neutral-600 dark:text-neutral-300">
+                  — {r.rationale}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+function ClarificationForm({
+  clarification,
+  disabled,
+  onSubmit,
+}: {
+  clarification: ClarificationData;
+  disabled: boolean;
+  onSubmit: (answers: Record<string, string>) => Promise<void>;
+}) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  return (
+    <section className="mt-8 rounded-2xl border border-sky-200 bg-sky-50 p-5 text-sky-950 shadow-sm dark:bg-sky-950/20 dark:border-sky-900/40 dark:text-sky-100">
+      <div className="flex items-center gap-2">
+        <span>❓</span>
+        <h3 className="text-base font-semibold">A few details would help</h3>
+      </div>
+      <p className="mt-1 text-sm">
+        Your decision is missing facts that change the analysis. Answer what
+        you can; blank answers are skipped.
+      </p>
+      <form
+        className="mt-4 space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void onSubmit(answers);
+        }}
+      >
+        {clarification.questions.map((q) => (
+          <label key={q.id} className="block">
+            <span className="text-sm font-medium">{q.question}</span>
+            <input
+              value={answers[q.id] ?? ""}
+              onChange={(e) =>
+                setAnswers((prev) => ({ ...prev, [q.id]: e.target.value }))
+              }
+              maxLength={200}
+              disabled={disabled}
+              className="mt-1 w-full rounded-lg border border-sky-200 bg-white px-2.5 py-1.5 text-sm text-neutral-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60 dark:bg-neutral-900 dark:border-sky-900 dark:text-neutral-100"
+            />
+          </label>
+        ))}
+        <div className="flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => void onSubmit({})}
+            disabled={disabled}
+            className="rounded-xl border border-sky-200 bg-white px-3 py-2 text-sm text-sky-900 shadow-sm hover:bg-sky-100 disabled:opacity-60 dark:bg-neutral-900 dark:border-sky-900 dark:text-sky-100"
+          >
+            Analyze anyway
+          </button>
+          <button
+            type="submit"
+            disabled={disabled}
+            className="rounded-xl bg-indigo-600 px-3 py-2 text-sm text-white shadow-sm hover:bg-indigo-700 disabled:opacity-60"
+          >
+            Resubmit with answers
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
+
+function DebateCard({
+  debate,
+  formatToolName,
+}: {
+  debate: DebateData;
+  formatToolName: (tool: string) => string;
+}) {
+  const exchanges = debate.exchanges ?? [];
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm dark:bg-neutral-900 dark:border-neutral-800">
+      <div className="flex items-center gap-2">
+        <span className="text-neutral-500">💬</span>
+        <h4 className="text-sm font-semibold text-neutral-800 dark:text-neutral-100">
+          {formatToolName(debate.agent)} agent responds
+        </h4>
+        <div className="ml-auto">
+          <StatusBadge status={debate.status} />
+        </div>
+      </div>
+      {debate.status === "done" && exchanges.length === 0 && (
+        <p className="mt-2 text-sm text-neutral-500">No objections raised.</p>
+      )}
+      {exchanges.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {exchanges.map((x, i) => (
+            <li key={i} className="text-sm leading-relaxed">
+              <span
+                className={[
+                  "mr-1.5 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ring-1",
+                  x.stance === "challenge"
+                    ? "bg-red-50 text-red-800 ring-red-200"
+                    : "bg-green-50 text-green-800 ring-green-200",
+                ].join(" ")}
+              >
+                {x.stance === "challenge" ? "challenges" : "agrees with"}{" "}
+                {formatToolName(x.to)}
+              </span>
+              <span className="text-neutral-800 dark:text-neutral-200">
+                {x.point}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
 
-function StatusBadge({ status }: { status: AgentData["status"] | "error" }) {
+function FollowUpThread({
+  followUps,
+  canAsk,
+  onAsk,
+}: {
+  followUps: FollowUpData[];
+  canAsk: boolean;
+  onAsk: (question: string) => Promise<void>;
+}) {
+  const [question, setQuestion] = useState("");
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || !canAsk) return;
+    const q = question;
+    setQuestion("");
+    await onAsk(q);
+  };
+
+  return (
+    <div className="mt-3 border-t border-neutral-100 pt-3 dark:border-neutral-800">
+      {followUps.length > 0 && (
+        <ul className="mb-3 space-y-3">
+          {followUps.map((f, i) => (
+            <li
+              key={i}
+              className="border-l-2 border-indigo-200 pl-3 dark:border-indigo-900"
+            >
+              <div className="text-xs font-medium text-neutral-500">
+                You asked: {f.question}
+              </div>
+              <p className="mt-1 whitespace-pre-wrap text-sm leading-relaxed text-neutral-800 dark:text-neutral-200">
+                {f.answer || (f.status === "running" ? "…" : "")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={onSubmit} className="flex gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a follow-up…"
+          maxLength={500}
+          disabled={!canAsk}
+          className="flex-1 rounded-lg border border-neutral-200 bg-white px-2.5 py-1.5 text-sm text-neutral-900 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-100"
+        />
+        <button
+          type="submit"
+          disabled={!canAsk || !question.trim()}
+          className="rounded-lg border border-neutral-200 bg-white px-2.5 py-1.5 text-xs text-neutral-700 shadow-sm hover:bg-neutral-50 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-300"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+}
+
+type ProfileForm = {
+  name: string;
+  industry: string;
+  size: string;
+  regions: string;
+  values: string;
+  riskAppetite: RiskAppetite;
+  notes: string;
+};
+
+const EMPTY_PROFILE: ProfileForm = {
+  name: "",
+  industry: "",
+  size: "",
+  regions: "",
+  values: "",
+  riskAppetite: "moderate",
+  notes: "",
+};
+
+const toProfileForm = (p: OrgProfile): ProfileForm => ({
+  name: p.name ?? "",
+  industry: p.industry,
+  size: p.size,
+  regions: p.regions.join(", "),
+  values: p.values.join("\n"),
+  riskAppetite: p.riskAppetite,
+  notes: p.notes ?? "",
+});
+
+function ProfilePanel({
+  disabled,
+  language,
+}: {
+  disabled: boolean;
+  language: Language | "auto";
+}) {
+  const [open, setOpen] = useState(false);
+  const [saved, setSaved] = useState<OrgProfile | null>(null);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_PROFILE);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ error: boolean; text: string }>();
+  const [adminToken, setAdminToken] = useState("");
+
+  // The profile is stored on the server and applies to every analysis
+  useEffect(() => {
+    fetch("/api/profile")
+      .then((res) => res.json())
+      .then((body: { profile: OrgProfile | null }) => {
+        setSaved(body.profile);
+        if (body.profile) setForm(toProfileForm(body.profile));
+      })
+      .catch(console.error);
+  }, []);
+
+  const update = (patch: Partial<ProfileForm>) =>
+    setForm((prev) => ({ ...prev, ...patch }));
+
+  const submit = async (method: "PUT" | "DELETE") => {
+    setSaving(true);
+    setMessage(undefined);
+    try {
+      const split = (s: string, sep: RegExp) =>
+        s
+          .split(sep)
+          .map((x) => x.trim())
+          .filter(Boolean);
+      const res = await fetch("/api/profile", {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(adminToken ? { "X-Admin-Token": adminToken } : {}),
+        },
+        ...(method === "PUT"
+          ? {
+              body: JSON.stringify({
+                profile: {
+                  ...form,
+                  regions: split(form.regions, /[,;]/),
+                  values: split(form.values, /\n/),
+                },
+                language,
+              }),
+            }
+          : {}),
+      });
+      const body: { profile?: OrgProfile | null; error?: string } =
+        await res.json();
+      if (!res.ok) {
+        setMessage({ error: true, text: body.error ?? "Could not save." });
+        return;
+      }
+      setSaved(body.profile ?? null);
+      setForm(body.profile ? toProfileForm(body.profile) : EMPTY_PROFILE);
+      setMessage({
+        error: false,
+        text: body.profile ? "Profile saved." : "Profile cleared.",
+      });
+    } catch (e) {
+      setMessage({ error: true, text: String(e) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "mt-1 w-full rounded-lg border border-neutral-200 bg-white px-2.5 py-1.5 text-sm text-neutral-900 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-100";
+  const busy = disabled || saving;
+
+  return (
+    <section className="mt-8 rounded-2xl border bg-white shadow-sm dark:bg-neutral-900 dark:border-neutral-800">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-5 py-3 text-left"
+      >
+        <span className="text-sm font-medium text-neutral-700 dark:text-neutral-200">
+          🏢 Organization profile
+        </span>
+        <span className="text-xs text-neutral-500">
+          {saved
+            ? `${saved.name ?? saved.industry} · ${saved.riskAppetite} risk appetite`
+            : "Not set"}{" "}
+          {open ? "▴" : "▾"}
+        </span>
+      </button>
+      {open && (
+        <form
+          className="space-y-3 px-5 pb-5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submit("PUT");
+          }}
+        >
+          <p className="text-xs text-neutral-500">
+            Every agent and the synthesis tailor their analysis to this
+            profile, so you don&apos;t have to restate it in each prompt.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="block text-xs text-neutral-500">
+              Name (optional)
+              <input
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                maxLength={80}
+                disabled={busy}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-xs text-neutral-500">
+              Industry
+              <input
+                value={form.industry}
+                onChange={(e) => update({ industry: e.target.value })}
+                placeholder="e.g. Healthcare"
+                maxLength={80}
+                required
+                disabled={busy}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-xs text-neutral-500">
+              Size
+              <input
+                value={form.size}
+                onChange={(e) => update({ size: e.target.value })}
+                placeholder="e.g. 250 employees"
+                maxLength={60}
+                required
+                disabled={busy}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="block text-xs text-neutral-500 sm:col-span-2">
+              Operating regions
+              <input
+                value={form.regions}
+                onChange={(e) => update({ regions: e.target.value })}
+                placeholder="e.g. EU, UK, US-CA"
+                maxLength={400}
+                disabled={busy}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-xs text-neutral-500">
+              Risk appetite
+              <select
+                value={form.riskAppetite}
+                onChange={(e) =>
+                  update({ riskAppetite: e.target.value as RiskAppetite })
+                }
+                disabled={busy}
+                className={inputClass}
+              >
+                <option value="low">Low</option>
+                <option value="moderate">Moderate</option>
+                <option value="high">High</option>
+              </select>
+            </label>
+          </div>
+          <label className="block text-xs text-neutral-500">
+            Values (one per line)
+            <textarea
+              value={form.values}
+              onChange={(e) => update({ values: e.target.value })}
+              placeholder={"e.g. Patient safety comes first\nRadical transparency"}
+              rows={3}
+              disabled={busy}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-xs text-neutral-500">
+            Notes (optional)
+            <textarea
+              value={form.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              placeholder="Anything else every analysis should know"
+              rows={2}
+              maxLength={500}
+              disabled={busy}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-xs text-neutral-500 sm:w-1/3">
+            Admin token
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              placeholder="Required to save or clear"
+              autoComplete="off"
+              disabled={busy}
+              className={inputClass}
+            />
+          </label>
+          <div className="flex items-center justify-end gap-2">
+            {message && (
+              <span
+                className={[
+                  "mr-auto text-xs",
+                  message.error ? "text-red-700" : "text-green-700",
+                ].join(" ")}
+              >
+                {message.text}
+              </span>
+            )}
+            {saved && (
+              <button
+                type="button"
+                onClick={() => void submit("DELETE")}
+                disabled={busy}
+                className="rounded-xl border border-neutral-200 bg-white px-3 py-2 text-sm text-neutral-700 shadow-sm hover:bg-neutral-50 disabled:opacity-60 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-300"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-xl bg-indigo-600 px-3 py-2 text-sm text-white shadow-sm hover:bg-indigo-700 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save profile"}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
+
+function AgentChip({
+  label,
+  preference,
+  onClick,
+  disabled,
+}: {
+  label: string;
+  preference?: AgentPreference;
+  onClick: () => void;
+  disabled?: boolean;
+}) {
+  const style =
+    preference === "required"
+      ? "border-indigo-300 bg-indigo-50 text-indigo-800 dark:bg-indigo-950/40 dark:border-indigo-800 dark:text-indigo-200"
+      : preference === "excluded"
+      ? "border-neutral-200 bg-neutral-100 text-neutral-400 line-through dark:bg-neutral-800 dark:border-neutral-700"
+      : "border-neutral-200 bg-white text-neutral-700 hover:bg-neutral-50 dark:bg-neutral-900 dark:border-neutral-700 dark:text-neutral-300";
+  const title =
+    preference === "required"
+      ? "Always run (click to exclude)"
+      : preference === "excluded"
+      ? "Never run (click to reset)"
+      : "Run if relevant (click to require)";
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      aria-pressed={preference === "required"}
+      className={[
+        "rounded-full border px-2 py-0.5 text-xs shadow-sm disabled:opacity-60",
+        style,
+      ].join(" ")}
+    >
+      {preference === "required" ? "✓ " : ""}
+      {label}
+    </button>
+  );
+}
+
+function StatusBadge({ status }: { status: AgentData["status"] }) {
   if (status === "running")
     return (
       <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-900 ring-1 ring-amber-200">
@@ -338,6 +1563,18 @@ function StatusBadge({ status }: { status: AgentData["status"] | "error" }) {
         ⚠️ error
       </span>
     );
+  if (status === "timeout")
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-900 ring-1 ring-red-200">
+        ⏱ timed out
+      </span>
+    );
+  if (status === "cancelled")
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium text-neutral-500 ring-1 ring-neutral-200">
+        ■ stopped
+      </span>
+    );
   return (
     <span className="inline-flex items-center gap-1 rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium text-neutral-700 ring-1 ring-neutral-200">
       ✓ done
@@ -345,6 +1582,450 @@ function StatusBadge({ status }: { status: AgentData["status"] | "error" }) {
   );
 }
 
+const severityStyle: Record<AgentRisk["severity"], string> = {
+  low: "bg-neutral-100 text-neutral-700 ring-neutral-200",
+  medium: "bg-amber-100 text-amber-900 ring-amber-200",
+  high: "bg-orange-100 text-orange-900 ring-orange-200",
+  critical: "bg-red-100 text-red-900 ring-red-200",
+};
+
+// Map a 0-10 risk score onto the severity palette
+const riskBand = (score: number): AgentRisk["severity"] =>
+  score >= 8 ? "critical" : score >= 6 ? "high" : score >= 3 ? "medium" : "low";
+
+const riskBarColor: Record<AgentRisk["severity"], string> = {
+  low: "bg-green-500",
+  medium: "bg-amber-400",
+  high: "bg-orange-500",
+  critical: "bg-red-500",
+};
+
+function ScorecardChart({ scorecard }: { scorecard: RiskScorecard }) {
+  const { dimensions, overall, dominant } = scorecard;
+  const dominantLabel = dimensions.find((d) => d.agent === dominant)?.label;
+
+  // Radar needs at least a triangle; fewer dimensions only get bars
+  const size = 220;
+  const center = size / 2;
+  const radius = center - 40;
+  const point = (i: number, value: number) => {
+    const angle = (Math.PI * 2 * i) / dimensions.length - Math.PI / 2;
+    const r = (radius * value) / 10;
+    return [center + r * Math.cos(angle), center + r * Math.sin(angle)];
+  };
+  const polygon = (value: (i: number) => number) =>
+    dimensions.map((_, i) => point(i, value(i)).join(",")).join(" ");
+
+  return (
+    <div className="mt-4 rounded-xl border border-neutral-200 p-3 dark:border-neutral-800">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="text-xs text-neutral-500">Risk scorecard</div>
+        <span
+          className={`ml-auto rounded-full px-2 py-0.5 text-xs font-medium ring-1 ${
+            severityStyle[riskBand(overall)]
+          }`}
+          title="Weighted mean of the dimension scores"
+        >
+          Overall {overall.toFixed(1)}/10
+        </span>
+      </div>
+      {dominantLabel && (
+        <p className="mt-1 text-xs text-neutral-500">
+          Largest weighted contribution: {dominantLabel}
+        </p>
+      )}
+      <div className="mt-3 grid items-center gap-4 md:grid-cols-2">
+        {dimensions.length >= 3 && (
+          <svg
+            viewBox={`0 0 ${size} ${size}`}
+            className="mx-auto w-full max-w-[240px]"
+            role="img"
+            aria-label="Risk radar chart"
+          >
+            {[2.5, 5, 7.5, 10].map((ring) => (
+              <polygon
+                key={ring}
+                points={polygon(() => ring)}
+                className="fill-none stroke-neutral-200 dark:stroke-neutral-700"
+              />
+            ))}
+            {dimensions.map((d, i) => {
+              const [x, y] = point(i, 10);
+              const [lx, ly] = point(i, 12.5);
+              return (
+                <g key={d.agent}>
+                  <line
+                    x1={center}
+                    y1={center}
+                    x2={x}
+                    y2={y}
+                    className="stroke-neutral-200 dark:stroke-neutral-700"
+                  />
+                  <text
+                    x={lx}
+                    y={ly}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="fill-neutral-500 text-[9px]"
+                  >
+                    {d.label}
+                  </text>
+                </g>
+              );
+            })}
+            <polygon
+              points={polygon((i) => dimensions[i].score)}
+              className="fill-red-500/20 stroke-red-500"
+              strokeWidth={1.5}
+            />
+          </svg>
+        )}
+        <ul className="space-y-1.5 text-xs">
+          {dimensions.map((d) => (
+            <li key={d.agent} className="flex items-center gap-2">
+              <span
+                className={`w-24 shrink-0 truncate ${
+                  d.agent === dominant ? "font-semibold" : ""
+                }`}
+              >
+                {d.label}
+              </span>
+              <div className="h-2 flex-1 overflow-hidden rounded-full bg-neutral-200 dark:bg-neutral-800">
+                <div
+                  className={`h-full rounded-full ${
+                    riskBarColor[riskBand(d.score)]
+                  }`}
+                  style={{ width: `${d.score * 10}%` }}
+                />
+              </div>
+              <span className="w-14 shrink-0 text-right tabular-nums text-neutral-600 dark:text-neutral-300">
+                {d.score.toFixed(1)}
+                {d.weight !== 1 && (
+                  <span className="text-neutral-400"> ×{d.weight}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+const verdictStyle: Record<FrameworkVerdict["verdict"], string> = {
+  supports: "bg-green-100 text-green-900 ring-green-200",
+  mixed: "bg-amber-100 text-amber-900 ring-amber-200",
+  opposes: "bg-red-100 text-red-900 ring-red-200",
+};
+
+const clauseStyle: Record<PolicyClause["status"], string> = {
+  satisfies: "bg-green-100 text-green-900 ring-green-200",
+  unclear: "bg-amber-100 text-amber-900 ring-amber-200",
+  violates: "bg-red-100 text-red-900 ring-red-200",
+};
+
+const frameworkNames: Record<FrameworkVerdict["framework"], string> = {
+  utilitarian: "Utilitarian",
+  deontological: "Deontological",
+  virtue: "Virtue ethics",
+  care: "Care ethics",
+};
+
+function EthicsView({ ethics }: { ethics: EthicsAnalysis }) {
+  return (
+    <div className="space-y-3">
+      <div className="rounded-xl border border-violet-200 bg-violet-50 p-3 dark:bg-violet-950/20 dark:border-violet-900/40">
+        <div className="text-xs text-violet-700 dark:text-violet-300 mb-1">
+          Core moral trade-off
+        </div>
+        <p className="font-medium">{ethics.coreTradeOff}</p>
+      </div>
+
+      <div>
+        <div className="text-xs text-neutral-500 mb-1">Frameworks</div>
+        <ul className="space-y-1.5">
+          {ethics.frameworks.map((v) => (
+            <li key={v.framework}>
+              <div className="flex items-center gap-1.5">
+                <span className="font-medium">
+                  {frameworkNames[v.framework]}
+                </span>
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs font-medium ring-1 ${
+                    verdictStyle[v.verdict]
+                  }`}
+                >
+                  {v.verdict}
+                </span>
+              </div>
+              <p className="text-neutral-600 dark:text-neutral-300">
+                {v.reasoning}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {ethics.conflicts.length > 0 && (
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">
+            Where they conflict
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {ethics.conflicts.map((c, i) => (
+              <li key={i}>{c}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FindingsView({
+  findings,
+  text,
+  anchor,
+}: {
+  findings: AgentFindings;
+  text: string;
+  anchor: string; // id prefix of this card's footnotes
+}) {
+  const cite = (t: string) => (
+    <CitedText text={t} citations={findings.citations} anchor={anchor} />
+  );
+  return (
+    <div className="space-y-3 text-sm text-neutral-800 dark:text-neutral-100">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {findings.recommendation && (
+          <span className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs font-medium text-neutral-700 ring-1 ring-neutral-200">
+            {findings.recommendation}
+          </span>
+        )}
+        {/* Findings cached before scores existed have none */}
+        {typeof findings.riskScore === "number" && (
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-medium ring-1 ${
+              severityStyle[riskBand(findings.riskScore)]
+            }`}
+          >
+            Risk {findings.riskScore}/10
+          </span>
+        )}
+        {findings.needsExpertReview && (
+          <span className="inline-flex items-center gap-1 rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-medium text-indigo-900 ring-1 ring-indigo-200">
+            ⚑ Needs expert review
+          </span>
+        )}
+      </div>
+      <p className="leading-relaxed">{cite(findings.summary)}</p>
+
+      {findings.ethics && <EthicsView ethics={findings.ethics} />}
+
+      {findings.jurisdictions && findings.jurisdictions.length > 0 && (
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">By jurisdiction</div>
+          <ul className="space-y-1.5">
+            {findings.jurisdictions.map((j) => (
+              <li key={j.jurisdiction} className="flex items-start gap-1.5">
+                <span className="shrink-0 font-medium">{j.jurisdiction}</span>
+                <span
+                  className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ring-1 ${
+                    severityStyle[j.severity]
+                  }`}
+                >
+                  {j.severity}
+                </span>
+                <span className="text-neutral-600 dark:text-neutral-300">
+                  {cite(j.summary)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {findings.clauses && findings.clauses.length > 0 && (
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">Policy clauses</div>
+          <ul className="space-y-1.5">
+            {findings.clauses.map((c, i) => (
+              <li key={i} className="flex items-start gap-1.5">
+                <span
+                  className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ring-1 ${
+                    clauseStyle[c.status]
+                  }`}
+                >
+                  {c.status}
+                </span>
+                <span>
+                  <span className="font-medium">
+                    {c.policy} {c.clause}
+                  </span>
+                  <span className="text-neutral-600 dark:text-neutral-300">
+                    {" "}
+                    — {cite(c.explanation)}
+                  </span>
+                  {c.evidence && (
+                    <span className="ml-1 text-xs text-neutral-400">
+                      {cite(c.evidence)}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {findings.risks.length > 0 && (
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">Risks</div>
+          <ul className="space-y-1.5">
+            {findings.risks.map((r, i) => (
+              <li key={i} className="flex flex-wrap items-center gap-1.5">
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs font-medium ring-1 ${
+                    severityStyle[r.severity]
+                  }`}
+                >
+                  {r.severity}
+                </span>
+                <span className="font-medium">{cite(r.title)}</span>
+                <span className="text-xs text-neutral-500">
+                  {r.likelihood}
+                  {r.stakeholders.length > 0 &&
+                    ` · affects ${r.stakeholders.join(", ")}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {findings.mitigations.length > 0 && (
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">Mitigations</div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {findings.mitigations.map((m, i) => (
+              <li key={i}>{cite(m)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {findings.openQuestions.length > 0 && (
+        <div>
+          <div className="text-xs text-neutral-500 mb-1">Open questions</div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {findings.openQuestions.map((q, i) => (
+              <li key={i}>{cite(q)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {findings.citations && findings.citations.length > 0 && (
+        <SourceList citations={findings.citations} anchor={anchor} />
+      )}
+
+      <details>
+        <summary className="cursor-pointer select-none text-xs text-neutral-500">
+          Text summary
+        </summary>
+        <div className="mt-2">
+          <OutputBlock text={text} />
+        </div>
+      </details>
+    </div>
+  );
+}
+
+// [#n] markers link to a footnote only when the agent returned that source
+const markerId = (anchor: string, marker: string) =>
+  `${anchor}-${marker.replace(/\D/g, "")}`;
+
+/** Text with its evidence markers ([#2]) linked to the card's footnotes. */
+function CitedText({
+  text,
+  citations,
+  anchor,
+}: {
+  text: string;
+  citations?: Citation[];
+  anchor: string;
+}) {
+  if (!citations?.length) return <>{text}</>;
+  return (
+    <>
+      {text.split(/(\[#\d+\])/).map((part, i) =>
+        citations.some((c) => c.marker === part) ? (
+          <a
+            key={i}
+            href={`#${markerId(anchor, part)}`}
+            className="align-super text-[10px] text-indigo-600 hover:underline"
+          >
+            {part}
+          </a>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+const isWebUrl = (url?: string) => Boolean(url && /^https?:\/\//i.test(url));
+
+/** Footnotes: where each cited passage came from. */
+function SourceList({
+  citations,
+  anchor,
+}: {
+  citations: Citation[];
+  anchor: string;
+}) {
+  return (
+    <div>
+      <div className="text-xs text-neutral-500 mb-1">Sources</div>
+      <ol className="space-y-0.5 text-xs text-neutral-600 dark:text-neutral-300">
+        {citations.map((c) => {
+          const title = c.title ?? "Untitled source";
+          const details = [
+            c.publisher,
+            c.section,
+            c.page ? `p. ${c.page}` : undefined,
+          ].filter(Boolean);
+          return (
+            <li
+              key={c.marker}
+              id={markerId(anchor, c.marker)}
+              className="flex items-start gap-1.5 scroll-mt-4"
+            >
+              <span className="shrink-0 text-neutral-400">{c.marker}</span>
+              <span>
+                {isWebUrl(c.url) ? (
+                  <a
+                    href={c.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-indigo-600 underline underline-offset-2 hover:text-indigo-700"
+                  >
+                    {title}
+                  </a>
+                ) : (
+                  <span className="font-medium">{title}</span>
+                )}
+                {details.length > 0 && ` · ${details.join(", ")}`}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
 function OutputBlock({ text }: { text: string }) {
   const [raw, setRaw] = useState(false);
 
@@ -469,6 +2150,32 @@ function markdownToHtmlSafe(md: string): string {
   return s;
 }
 
+/** Hover card explaining how the confidence score was derived. */
+function ConfidenceBreakdown({ factors }: { factors: ConfidenceFactor[] }) {
+  return (
+    <div className="invisible absolute left-0 top-full z-10 mt-2 w-80 rounded-xl border bg-white p-3 text-xs opacity-0 shadow-lg transition-opacity group-hover:visible group-hover:opacity-100 dark:bg-neutral-900 dark:border-neutral-700">
+      <div className="mb-2 font-medium text-neutral-700 dark:text-neutral-200">
+        How this was computed
+      </div>
+      <ul className="space-y-1.5">
+        {factors.map((f) => (
+          <li key={f.factor}>
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-neutral-700 dark:text-neutral-200">
+                {f.label}
+              </span>
+              <span className="ml-auto tabular-nums text-neutral-500">
+                {Math.round(f.score * 100)}% × {Math.round(f.weight * 100)}%
+              </span>
+            </div>
+            <div className="text-neutral-500">{f.detail}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function ProgressBar({ value }: { value: number }) {
   const pct = Math.max(0, Math.min(100, value));
   return (
@@ -0,0 +1,7 @@
+/** Runs once when the server starts. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Load and validate agents/*.json now rather than on the first request
+    await import("@/lib/agents");
+  }
+}
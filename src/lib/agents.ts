@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+// ---- agent registry: every specialist agent is declared in agents/*.json ----
+
+// Names the router, synthesis and usage accounting already use for themselves
+const RESERVED = new Set([
+  "router",
+  "synthesis",
+  "generatePdfLog",
+  "embeddings",
+  "moderation",
+  "retrieval",
+  "cache",
+]);
+
+// Evidence domains are tags on ingested documents, e.g. "aiRisk" or "law"
+export const DomainPattern = /^[a-z][A-Za-z0-9]*$/;
+
+const AgentDefinitionSchema = z.object({
+  // Tool name seen by the router, e.g. "law"
+  name: z
+    .string()
+    .regex(/^[a-z][A-Za-z0-9]*$/, "must be camelCase letters and digits")
+    .refine((n) => !RESERVED.has(n), "is reserved"),
+  // Card title in the UI and heading in the PDF
+  label: z.string().min(1),
+  // Scorecard dimension, e.g. "Legal"
+  dimension: z.string().min(1),
+  // Position in the UI and in every run; ties sort by name
+  order: z.number().default(100),
+  // What the router reads when deciding whether the agent is relevant
+  description: z.string().min(1),
+  systemPrompt: z.string().min(1),
+  // Bullet points the agent must cover
+  rubric: z.array(z.string().min(1)).min(1),
+  // Word limit for the findings summary
+  wordLimit: z.number().int().positive().default(80),
+  // Model for the agent's role; the model registry overrides any of it
+  model: z
+    .object({
+      provider: z.string().optional(),
+      model: z.string().min(1).optional(),
+      temperature: z.number().min(0).max(2).optional(),
+      maxOutputTokens: z.number().int().positive().optional(),
+    })
+    .default({}),
+  // Ground the answer in passages from this evidence domain, tagged by
+  // `domain` in each document's .meta.json at ingestion
+  retrieval: z
+    .object({
+      domain: z
+        .string()
+        .regex(DomainPattern, "must be camelCase letters and digits"),
+      topK: z.number().int().min(1).max(20).default(5),
+    })
+    .optional(),
+  // Also return a per-framework ethical analysis
+  ethics: z.boolean().default(false),
+  // Receives the request's jurisdictions and breaks its risks down by them
+  jurisdictional: z.boolean().default(false),
+  // Also cite the policy clauses (from its retrieved excerpts) the decision
+  // violates or satisfies
+  clauses: z.boolean().default(false),
+});
+
+export type AgentDefinition = z.infer<typeof AgentDefinitionSchema>;
+export type AgentName = string;
+
+/**
+ * Read and validate every `*.json` file in `agents/` (or AGENTS_DIR).
+ * Runs once when the module is first imported, so a bad definition fails the
+ * server at startup instead of the first request that routes to it.
+ */
+function loadDefinitions(): AgentDefinition[] {
+  const dir = path.resolve(process.cwd(), process.env.AGENTS_DIR || "agents");
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Agent definitions not found: ${dir}`);
+  }
+
+  const definitions: AgentDefinition[] = [];
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .sort();
+  for (const file of files) {
+    const full = path.join(dir, file);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(full, "utf8"));
+    } catch (err) {
+      throw new Error(`Invalid agent definition ${full}: ${String(err)}`);
+    }
+
+    const parsed = AgentDefinitionSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid agent definition ${full}: ${parsed.error.issues
+          .map((i) => `${i.path.join(".")}: ${i.message}`)
+          .join("; ")}`
+      );
+    }
+    if (definitions.some((d) => d.name === parsed.data.name)) {
+      throw new Error(
+        `Invalid agent definition ${full}: duplicate agent "${parsed.data.name}"`
+      );
+    }
+    definitions.push(parsed.data);
+  }
+
+  if (!definitions.length) {
+    throw new Error(`No agent definitions in ${dir}`);
+  }
+  return definitions.sort(
+    (a, b) => a.order - b.order || a.name.localeCompare(b.name)
+  );
+}
+
+export const agentDefinitions: readonly AgentDefinition[] = loadDefinitions();
+
+/** Specialist agents the router, synthesis and UI all agree on. */
+export const AllowedTools = agentDefinitions.map((d) => d.name) as [
+  AgentName,
+  ...AgentName[],
+];
+
+export function getAgentDefinition(name: string): AgentDefinition | undefined {
+  return agentDefinitions.find((d) => d.name === name);
+}
+
+/** Display names for the UI and the PDF log. */
+export const AgentLabels: Record<AgentName, string> = Object.fromEntries(
+  agentDefinitions.map((d) => [d.name, d.label])
+);
+
+/** The risk dimension each agent scores on the scorecard. */
+export const RiskDimensions: Record<AgentName, string> = Object.fromEntries(
+  agentDefinitions.map((d) => [d.name, d.dimension])
+);
+
+/** Domains some agent retrieves from, so ingestion can flag unused ones. */
+export const EvidenceDomains: string[] = Array.from(
+  new Set(
+    agentDefinitions.flatMap((d) => (d.retrieval ? [d.retrieval.domain] : []))
+  )
+);
@@ -0,0 +1,112 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { modelSettings } from "@/lib/models";
+import { languageInstruction } from "@/lib/language";
+import type {
+  ClarificationAnswer,
+  ClarificationData,
+  Language,
+} from "@/types/ai";
+
+// Below this specification score we ask before spending on agents
+const SPECIFICATION_THRESHOLD = 0.6;
+const MAX_QUESTIONS = 4;
+
+const AnswersSchema = z
+  .array(
+    z.object({
+      question: z.string().trim().min(1).max(300),
+      answer: z.string().trim().min(1).max(200),
+    })
+  )
+  .max(MAX_QUESTIONS, `Answer at most ${MAX_QUESTIONS} clarifying questions.`);
+
+const ClarificationSchema = z.object({
+  score: z.number().min(0).max(1),
+  questions: z
+    .array(
+      z.object({
+        topic: z.enum([
+          "jurisdiction",
+          "headcount",
+          "timeline",
+          "affectedGroups",
+          "budget",
+          "other",
+        ]),
+        question: z.string(),
+      })
+    )
+    .max(MAX_QUESTIONS),
+});
+
+/**
+ * Score how well-specified a decision is. Returns targeted questions when key
+ * facts are missing, or null when the agents can proceed.
+ */
+export async function assessSpecification(
+  decision: string,
+  language?: Language,
+  abortSignal?: AbortSignal
+): Promise<ClarificationData | null> {
+  const { object } = await generateObject({
+    // Pre-routing check, so it runs on the router's model
+    ...modelSettings("router", { temperature: 0 }),
+    abortSignal,
+    schema: ClarificationSchema,
+    messages: [
+      {
+        role: "system",
+        content: `
+You review business decisions before expert agents (legal, economic, DEI, environmental, public health, PR, AI risk, privacy, ethics) analyze them.
+Score from 0 to 1 how well-specified the decision is for that analysis.
+Key facts: jurisdiction(s), headcount or scale, timeline, affected groups, budget.
+Only ask about facts that are missing AND would materially change the analysis.
+Ask at most ${MAX_QUESTIONS} short, specific questions. Ask none if the decision is clear enough.
+${languageInstruction(language)}
+        `.trim(),
+      },
+      { role: "user", content: `Decision: "${decision}"` },
+    ],
+  });
+
+  if (object.score >= SPECIFICATION_THRESHOLD || !object.questions.length) {
+    return null;
+  }
+
+  return {
+    score: object.score,
+    questions: object.questions.map((q, i) => ({ id: `q${i + 1}`, ...q })),
+  };
+}
+
+/**
+ * Validate the optional `clarifications` field of a decision request: the
+ * answers the user gave to the clarifying questions (an empty list means the
+ * user chose to analyze without answering).
+ */
+export function parseClarifications(
+  raw: unknown
+):
+  | { valid: true; clarifications?: ClarificationAnswer[] }
+  | { valid: false; error: string } {
+  if (raw === undefined || raw === null) return { valid: true };
+
+  const parsed = AnswersSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      error: `Invalid clarifications: ${parsed.error.issues
+        .map((i) => i.message)
+        .join("; ")}`,
+    };
+  }
+  return { valid: true, clarifications: parsed.data };
+}
+
+/** The block the UI appends to the decision, e.g. "Additional context:\n- Q? A". */
+export function describeClarifications(answers: ClarificationAnswer[]) {
+  return `Additional context:\n${answers
+    .map((a) => `- ${a.question} ${a.answer}`)
+    .join("\n")}`;
+}
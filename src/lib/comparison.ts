@@ -0,0 +1,198 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { agentContext, type AgentName } from "@/tools";
+import { getAgentDefinition } from "@/lib/agents";
+import { modelSettings } from "@/lib/models";
+import { languageInstruction } from "@/lib/language";
+import type {
+  ComparisonCell,
+  ComparisonData,
+  ComparisonOption,
+  Language,
+  OrgProfile,
+} from "@/types/ai";
+
+const OptionsSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1).max(60),
+      description: z.string().trim().max(300).optional(),
+    })
+  )
+  .min(2, "Provide at least 2 options to compare.")
+  .max(4, "Compare at most 4 options.")
+  .refine(
+    (opts) =>
+      new Set(opts.map((o) => o.name.toLowerCase())).size === opts.length,
+    "Option names must be unique."
+  );
+
+/** Validate the optional `options` field of a decision request. */
+export function parseComparisonOptions(
+  raw: unknown
+):
+  | { valid: true; options?: ComparisonOption[] }
+  | { valid: false; error: string } {
+  if (raw === undefined || raw === null) return { valid: true };
+
+  const parsed = OptionsSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      error: `Invalid options: ${parsed.error.issues
+        .map((i) => i.message)
+        .join("; ")}`,
+    };
+  }
+  return { valid: true, options: parsed.data };
+}
+
+/** Plain-text rendering of the options, shared by prompts, checks and cache keys. */
+export function describeOptions(options: ComparisonOption[]) {
+  return options
+    .map((o, i) =>
+      o.description
+        ? `${i + 1}. ${o.name}: ${o.description}`
+        : `${i + 1}. ${o.name}`
+    )
+    .join("\n");
+}
+
+/**
+ * Have one agent score every option from its own perspective, with the same
+ * instructions, rubric, profile and retrieved evidence as its findings.
+ * Passages are retrieved once for the decision and all of its options.
+ */
+export async function evaluateOptions(
+  agent: AgentName,
+  decision: string,
+  options: ComparisonOption[],
+  {
+    jurisdictions,
+    profile,
+    language,
+  }: { jurisdictions?: string[]; profile?: OrgProfile; language?: Language } = {},
+  abortSignal?: AbortSignal
+): Promise<{ cells: ComparisonCell[]; output: string }> {
+  const def = getAgentDefinition(agent);
+  if (!def) throw new Error(`Unknown agent: ${agent}`);
+
+  const names = options.map((o) => o.name) as [string, ...string[]];
+  // Agents outside law-like domains compare the options as stated
+  const scoped =
+    def.jurisdictional && jurisdictions?.length ? jurisdictions : undefined;
+
+  const { system } = await agentContext(
+    def,
+    {
+      query: `${decision}\n\nOptions:\n${describeOptions(options)}`,
+      jurisdictions: scoped,
+      profile,
+      tailoring:
+        "Score each option for this organization, given its risk appetite and values.",
+    },
+    abortSignal
+  );
+
+  const { object } = await generateObject({
+    ...modelSettings(agent, {
+      temperature: def.model.temperature ?? 0.3,
+      maxOutputTokens: 500,
+    }),
+    abortSignal,
+    schema: z.object({
+      evaluations: z.array(
+        z.object({
+          option: z.enum(names),
+          score: z.number().min(0).max(10),
+          summary: z.string(),
+        })
+      ),
+    }),
+    messages: [
+      {
+        role: "system",
+        content: `${system}\n\nCompare the alternative options strictly from your perspective. Be concise and practical. Do not use Markdown.`,
+      },
+      {
+        role: "user",
+        content: `
+Decision: "${decision}"${scoped ? `\n\nJurisdictions: ${scoped.join(", ")}` : ""}
+
+Options:
+${describeOptions(options)}
+
+Weigh each option against:
+${def.rubric.map((r) => `- ${r}`).join("\n")}
+
+For EVERY option return:
+- option: its exact name
+- score: 0 (clearly unacceptable) to 10 (clearly favourable) from your perspective
+- summary: the main reason, <= 40 words${
+          def.retrieval ? ", citing the passages it rests on by marker" : ""
+        }${language && language !== "en" ? `\n\n${languageInstruction(language)}` : ""}
+        `.trim(),
+      },
+    ],
+  });
+
+  // One cell per option, in request order; skipped options are marked missing
+  const cells = options.map((o): ComparisonCell => {
+    const e = object.evaluations.find((ev) => ev.option === o.name);
+    return e
+      ? {
+          agent,
+          option: o.name,
+          score: Math.round(e.score * 10) / 10,
+          summary: e.summary,
+        }
+      : {
+          agent,
+          option: o.name,
+          score: null,
+          summary: "Not evaluated.",
+          missing: true,
+        };
+  });
+  if (cells.every((c) => c.missing)) {
+    throw new Error(`${agent} did not evaluate any option`);
+  }
+
+  const output = cells
+    .map((c) =>
+      c.missing
+        ? `${c.option}: ${c.summary}`
+        : `${c.option} (${c.score}/10): ${c.summary}`
+    )
+    .join("\n\n");
+
+  return { cells, output };
+}
+
+/** Cells the agent actually scored, with the score narrowed to a number. */
+export function scoredCells(cells: ComparisonCell[]) {
+  return cells.filter(
+    (c): c is ComparisonCell & { score: number } =>
+      c.score !== null && !c.missing
+  );
+}
+
+/**
+ * Best-scoring option per agent (ties go to the earlier option). Missing
+ * cells are ignored; an agent with no scored option has no winner.
+ */
+export function dimensionWinners(
+  options: ComparisonOption[],
+  cells: ComparisonCell[]
+): ComparisonData["dimensionWinners"] {
+  const scored = scoredCells(cells);
+  const agents = Array.from(new Set(scored.map((c) => c.agent)));
+  return agents.map((agent) => {
+    let best = scored.find((c) => c.agent === agent)!;
+    for (const o of options) {
+      const cell = scored.find((c) => c.agent === agent && c.option === o.name);
+      if (cell && cell.score > best.score) best = cell;
+    }
+    return { agent, option: best.option };
+  });
+}
@@ -0,0 +1,137 @@
+import { scoredCells } from "@/lib/comparison";
+import type {
+  AgentData,
+  ComparisonCell,
+  ComparisonData,
+  ConfidenceFactor,
+  MissingAgent,
+} from "@/types/ai";
+
+// ---- confidence derived from how the agents behaved, not from a model's self-report ----
+
+const WEIGHTS: Record<ConfidenceFactor["factor"], number> = {
+  coverage: 0.25,
+  breadth: 0.15,
+  agreement: 0.4,
+  evidence: 0.2,
+};
+
+// Perspectives needed before breadth stops limiting confidence
+const FULL_BREADTH = 3;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Share of positions held by the most common one, e.g. 3 of 4 "proceed". */
+function agreementFactor(
+  positions: string[],
+  describe: (top: string) => string
+): ConfidenceFactor | undefined {
+  // A single view can neither agree nor disagree
+  if (positions.length < 2) return undefined;
+  const counts = new Map<string, number>();
+  for (const p of positions) counts.set(p, (counts.get(p) ?? 0) + 1);
+  const [top, n] = [...counts].sort((a, b) => b[1] - a[1])[0];
+  return {
+    factor: "agreement",
+    label: "Agreement",
+    score: n / positions.length,
+    weight: WEIGHTS.agreement,
+    detail: `${n} of ${positions.length} agents ${describe(top)}`,
+  };
+}
+
+/** Each agent's favourite option in a comparison run. */
+function preferredOptions(cells: ComparisonCell[]): string[] {
+  const best = new Map<string, ComparisonCell & { score: number }>();
+  for (const c of scoredCells(cells)) {
+    const current = best.get(c.agent);
+    if (!current || c.score > current.score) best.set(c.agent, c);
+  }
+  return [...best.values()].map((c) => c.option);
+}
+
+/**
+ * Score confidence (0-1) from the run itself: how many of the selected agents
+ * reported, how many perspectives there are, whether they point the same way
+ * and whether retrieval found evidence. Factors that do not apply are left
+ * out and the remaining weights rescaled.
+ */
+export function assessConfidence({
+  agentOutputs,
+  missing = [],
+  comparison,
+}: {
+  agentOutputs: AgentData[];
+  missing?: MissingAgent[];
+  comparison?: Pick<ComparisonData, "cells" | "ranking">;
+}): { confidence: number; confidenceFactors: ConfidenceFactor[] } {
+  const reported = agentOutputs.filter(
+    (a) => a.status === "done" && a.tool !== "generatePdfLog"
+  );
+  const selected = reported.length + missing.length;
+  if (!reported.length) {
+    return { confidence: 0, confidenceFactors: [] };
+  }
+
+  const factors: ConfidenceFactor[] = [
+    {
+      factor: "coverage",
+      label: "Agents reporting",
+      score: reported.length / selected,
+      weight: WEIGHTS.coverage,
+      detail: missing.length
+        ? `${missing.length} of ${selected} selected agents failed`
+        : `All ${selected} selected agents reported`,
+    },
+    {
+      factor: "breadth",
+      label: "Perspectives",
+      score: Math.min(1, reported.length / FULL_BREADTH),
+      weight: WEIGHTS.breadth,
+      detail: `${reported.length} perspective${
+        reported.length === 1 ? "" : "s"
+      } (${FULL_BREADTH}+ for full credit)`,
+    },
+  ];
+
+  const agreement = comparison
+    ? agreementFactor(preferredOptions(comparison.cells), (option) =>
+        option === comparison.ranking?.[0]?.option
+          ? `favour the top-ranked option, ${option}`
+          : `favour ${option}`
+      )
+    : agreementFactor(
+        reported.flatMap((a) =>
+          a.findings?.recommendation ? [a.findings.recommendation] : []
+        ),
+        (direction) => `recommend "${direction}"`
+      );
+  if (agreement) factors.push(agreement);
+
+  const retrieving = reported.filter(
+    (a) => typeof a.findings?.evidence === "number"
+  );
+  if (retrieving.length) {
+    const grounded = retrieving.filter((a) => a.findings!.evidence! > 0);
+    factors.push({
+      factor: "evidence",
+      label: "Evidence coverage",
+      score: grounded.length / retrieving.length,
+      weight: WEIGHTS.evidence,
+      detail: `${grounded.length} of ${retrieving.length} retrieving agents found supporting passages`,
+    });
+  }
+
+  const totalWeight = factors.reduce((n, f) => n + f.weight, 0);
+  const confidenceFactors = factors.map((f) => ({
+    ...f,
+    score: round2(f.score),
+    weight: round2(f.weight / totalWeight),
+  }));
+  const confidence = confidenceFactors.reduce(
+    (n, f) => n + f.score * f.weight,
+    0
+  );
+
+  return { confidence: round2(confidence), confidenceFactors };
+}
@@ -0,0 +1,133 @@
+import { generateObject, type UIMessageStreamWriter } from "ai";
+import { z } from "zod";
+import { agentTools, type AgentFinding, type AgentName } from "@/tools";
+import type { MoralMessage, DebateData, Language } from "@/types/ai";
+import {
+  runWithPolicy,
+  AGENT_POLICY,
+  type RetryPolicy,
+} from "@/lib/resilience";
+import { modelSettings } from "@/lib/models";
+import { languageInstruction } from "@/lib/language";
+
+// Keep each rebuttal round short; synthesis only needs the sharpest points
+const MAX_EXCHANGES_PER_AGENT = 2;
+
+async function crossExamine(
+  decision: string,
+  own: AgentFinding,
+  others: AgentFinding[],
+  language?: Language,
+  abortSignal?: AbortSignal
+): Promise<DebateData> {
+  const otherNames = others.map((o) => o.agent) as [AgentName, ...AgentName[]];
+
+  const { object } = await generateObject({
+    ...modelSettings(own.agent, { temperature: 0.4, maxOutputTokens: 300 }),
+    abortSignal,
+    schema: z.object({
+      exchanges: z
+        .array(
+          z.object({
+            to: z.enum(otherNames),
+            stance: z.enum(["agree", "challenge"]),
+            point: z.string(),
+          })
+        )
+        .max(MAX_EXCHANGES_PER_AGENT),
+    }),
+    messages: [
+      {
+        role: "system",
+        content: `You are the "${own.agent}" expert agent. ${agentTools[own.agent].description} You are reviewing the other agents' findings on the same decision. Challenge assumptions that conflict with your expertise, or explicitly agree where they strengthen your view. Be concise and practical. Do not use Markdown. ${languageInstruction(
+          language
+        )}`.trim(),
+      },
+      {
+        role: "user",
+        content: `
+Decision: "${decision}"
+
+Your findings:
+${own.output}
+
+Other agents' findings:
+${others.map((o) => `[${o.agent}]\n${o.output}`).join("\n\n")}
+
+Respond with at most ${MAX_EXCHANGES_PER_AGENT} exchanges, each:
+- to: the agent you are responding to
+- stance: agree or challenge
+- point: one or two sentences (<= 50 words) naming the specific claim and why
+        `.trim(),
+      },
+    ],
+  });
+
+  return { agent: own.agent, status: "done", exchanges: object.exchanges };
+}
+
+/**
+ * Optional debate phase: every agent reads the others' findings and writes a
+ * short rebuttal/agreement note, streamed as `data-debate` parts.
+ */
+export async function runDebateRound({
+  decision,
+  findings,
+  language,
+  writer,
+  policy = AGENT_POLICY,
+  abortSignal,
+}: {
+  decision: string;
+  findings: AgentFinding[];
+  language?: Language;
+  writer: UIMessageStreamWriter<MoralMessage>;
+  policy?: RetryPolicy;
+  abortSignal?: AbortSignal;
+}): Promise<DebateData[]> {
+  // Nobody to argue with
+  if (findings.length < 2) return [];
+
+  for (const f of findings) {
+    writer.write({
+      type: "data-debate",
+      id: `debate-${f.agent}`,
+      data: { agent: f.agent, status: "running" },
+    });
+  }
+
+  const results = await Promise.allSettled(
+    findings.map(async (f) => {
+      const others = findings.filter((o) => o.agent !== f.agent);
+      const debate = await runWithPolicy(
+        (signal) => crossExamine(decision, f, others, language, signal),
+        policy,
+        abortSignal
+      );
+      writer.write({
+        type: "data-debate",
+        id: `debate-${f.agent}`,
+        data: debate,
+      });
+      return debate;
+    })
+  );
+
+  abortSignal?.throwIfAborted();
+
+  const debate: DebateData[] = [];
+  results.forEach((r, i) => {
+    if (r.status === "fulfilled") {
+      debate.push(r.value);
+      return;
+    }
+    console.error(`debate for ${findings[i].agent} failed:`, r.reason);
+    writer.write({
+      type: "data-debate",
+      id: `debate-${findings[i].agent}`,
+      data: { agent: findings[i].agent, status: "done", exchanges: [] },
+    });
+  });
+
+  return debate;
+}
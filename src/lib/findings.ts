@@ -0,0 +1,237 @@
+import { z } from "zod";
+import type {
+  AgentData,
+  AgentFindings,
+  Citation,
+  PolicyClause,
+} from "@/types/ai";
+
+// ---- structured agent output: what every specialist agent returns ----
+
+export const Severities = ["low", "medium", "high", "critical"] as const;
+export const Likelihoods = [
+  "unlikely",
+  "possible",
+  "likely",
+  "almost certain",
+] as const;
+
+export const Recommendations = [
+  "proceed",
+  "proceed with mitigations",
+  "do not proceed",
+] as const;
+
+export const Frameworks = [
+  "utilitarian",
+  "deontological",
+  "virtue",
+  "care",
+] as const;
+
+export const EthicsSchema = z.object({
+  frameworks: z
+    .array(
+      z.object({
+        framework: z.enum(Frameworks),
+        verdict: z.enum(["supports", "opposes", "mixed"]),
+        reasoning: z.string(),
+      })
+    )
+    .max(Frameworks.length),
+  conflicts: z.array(z.string()).max(3),
+  coreTradeOff: z.string(),
+});
+
+export const JurisdictionsBreakdownSchema = z.array(
+  z.object({
+    jurisdiction: z.string(),
+    severity: z.enum(Severities),
+    summary: z.string(),
+  })
+);
+
+export const ClauseStatuses = ["violates", "satisfies", "unclear"] as const;
+
+export const ClausesSchema = z
+  .array(
+    z.object({
+      policy: z.string(),
+      clause: z.string(),
+      status: z.enum(ClauseStatuses),
+      explanation: z.string(),
+      evidence: z.string().optional(),
+    })
+  )
+  .max(6);
+
+export const CitationsSchema = z.array(
+  z.object({
+    marker: z.string(),
+    title: z.string().optional(),
+    publisher: z.string().optional(),
+    section: z.string().optional(),
+    page: z.number().int().positive().optional(),
+    url: z.string().optional(),
+  })
+);
+
+export const FindingsSchema = z.object({
+  summary: z.string(),
+  recommendation: z.enum(Recommendations),
+  riskScore: z.number().min(0).max(10),
+  risks: z
+    .array(
+      z.object({
+        title: z.string(),
+        severity: z.enum(Severities),
+        likelihood: z.enum(Likelihoods),
+        stakeholders: z.array(z.string()),
+      })
+    )
+    .max(5),
+  mitigations: z.array(z.string()).max(5),
+  openQuestions: z.array(z.string()).max(3),
+  needsExpertReview: z.boolean(),
+}) satisfies z.ZodType<AgentFindings>;
+
+/** Appended to every agent's rubric so the fields mean the same thing everywhere. */
+export const findingsInstructions = (wordLimit = 80) =>
+  `
+Structure the answer as:
+- summary: your overall assessment and recommendation, <= ${wordLimit} words
+- recommendation: proceed, proceed with mitigations, or do not proceed
+- riskScore: overall risk on your dimension, 0 (negligible) to 10 (severe)
+- risks: up to 5, each with a short title, severity (low, medium, high, critical), likelihood (unlikely, possible, likely, almost certain) and the affected stakeholders
+- mitigations: up to 5 concrete actions
+- openQuestions: up to 3 facts you would need to firm up this assessment
+- needsExpertReview: true if a qualified professional should review before acting
+`.trim();
+
+/** For jurisdictional agents when the request names jurisdictions. */
+export const jurisdictionInstructions = (jurisdictions: string[]) =>
+  `
+The decision applies in: ${jurisdictions.join(", ")}.
+Name the specific laws and regulators of each where relevant, and also return:
+- jurisdictions: one entry per jurisdiction above, in that order, with its overall severity (low, medium, high, critical) and a summary <= 40 words of what differs there
+`.trim();
+
+/** For agents that also return `ethics` (see EthicsSchema). */
+export const ETHICS_INSTRUCTIONS = `
+Also return:
+- ethics.frameworks: one entry per framework (utilitarian, deontological, virtue, care) with a verdict (supports, opposes, mixed) and reasoning <= 40 words
+- ethics.conflicts: up to 3 points where the frameworks disagree
+- ethics.coreTradeOff: the core moral trade-off
+- riskScore: how ethically troubling the decision is
+`.trim();
+
+/** For agents that check the decision against internal policies. */
+export const CLAUSE_INSTRUCTIONS = `
+Also return:
+- clauses: up to 6 internal policy clauses the decision violates, satisfies or leaves unclear, most serious first. Each has the policy name, the clause reference exactly as numbered in the excerpt (e.g. "§4.2"), the status (violates, satisfies, unclear), an explanation <= 30 words and the evidence marker it came from (e.g. "[#2]")
+- Cite only clauses that appear in the policy excerpts; return an empty list if none apply
+`.trim();
+
+// What a tool returns: the model's findings plus fields the tool sets itself
+// or only asks some agents for
+export const ToolFindingsSchema = FindingsSchema.extend({
+  evidence: z.number().int().min(0).optional(),
+  ethics: EthicsSchema.optional(),
+  jurisdictions: JurisdictionsBreakdownSchema.optional(),
+  clauses: ClausesSchema.optional(),
+  citations: CitationsSchema.optional(),
+});
+
+/** Accept a tool result only if it is a well-formed findings object. */
+export function parseFindings(value: unknown): AgentFindings | null {
+  const parsed = ToolFindingsSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/** Every policy clause the agents cited, for the PDF log. */
+export function collectClauses(agentOutputs: AgentData[]): PolicyClause[] {
+  return agentOutputs.flatMap((a) => a.findings?.clauses ?? []);
+}
+
+/** Every agent's cited sources, for the PDF's references section. */
+export function collectCitations(
+  agentOutputs: AgentData[]
+): (Citation & { agent: string })[] {
+  return agentOutputs.flatMap((a) =>
+    (a.findings?.citations ?? []).map((c) => ({ agent: a.tool, ...c }))
+  );
+}
+
+/**
+ * Plain-text rendering, kept as `AgentData.output` for synthesis, debate,
+ * follow-ups, the PDF log and cached flows that predate structured output.
+ */
+export function renderFindings(f: AgentFindings): string {
+  const sections = [
+    `${f.summary}\n\nRecommendation: ${f.recommendation}\nRisk score: ${f.riskScore}/10`,
+  ];
+  if (f.risks.length) {
+    sections.push(
+      [
+        "Risks:",
+        ...f.risks.map(
+          (r) =>
+            `- ${r.title} (${r.severity} severity, ${r.likelihood})${
+              r.stakeholders.length ? `; affects ${r.stakeholders.join(", ")}` : ""
+            }`
+        ),
+      ].join("\n")
+    );
+  }
+  if (f.jurisdictions?.length) {
+    sections.push(
+      [
+        "By jurisdiction:",
+        ...f.jurisdictions.map(
+          (j) => `- ${j.jurisdiction} (${j.severity}): ${j.summary}`
+        ),
+      ].join("\n")
+    );
+  }
+  if (f.clauses?.length) {
+    sections.push(
+      [
+        "Policy clauses:",
+        ...f.clauses.map(
+          (c) =>
+            `- ${c.policy} ${c.clause} (${c.status}): ${c.explanation}${
+              c.evidence ? ` ${c.evidence}` : ""
+            }`
+        ),
+      ].join("\n")
+    );
+  }
+  if (f.ethics) {
+    sections.push(
+      [
+        "Ethical frameworks:",
+        ...f.ethics.frameworks.map(
+          (v) => `- ${v.framework}: ${v.verdict}. ${v.reasoning}`
+        ),
+      ].join("\n")
+    );
+    if (f.ethics.conflicts.length) {
+      sections.push(
+        ["Where they conflict:", ...f.ethics.conflicts.map((c) => `- ${c}`)].join(
+          "\n"
+        )
+      );
+    }
+    sections.push(`Core moral trade-off: ${f.ethics.coreTradeOff}`);
+  }
+  if (f.mitigations.length) {
+    sections.push(["Mitigations:", ...f.mitigations.map((m) => `- ${m}`)].join("\n"));
+  }
+  if (f.openQuestions.length) {
+    sections.push(
+      ["Open questions:", ...f.openQuestions.map((q) => `- ${q}`)].join("\n")
+    );
+  }
+  if (f.needsExpertReview) sections.push("Needs expert review before acting.");
+  return sections.join("\n\n");
+}
@@ -0,0 +1,174 @@
+import {
+  generateId,
+  streamText,
+  type ModelMessage,
+  type UIMessageStreamWriter,
+} from "ai";
+import { agentTools, AllowedTools, type AgentName } from "@/tools";
+import { extractUserText } from "@/lib/safety";
+import { modelSettings } from "@/lib/models";
+import { detectLanguage, languageInstruction } from "@/lib/language";
+import type { MoralMessage, FollowUpData, Language } from "@/types/ai";
+
+export type FollowUpTarget = AgentName | "synthesis";
+
+export type FollowUpContext = {
+  target: FollowUpTarget;
+  decision: string;
+  priorOutput: string;
+  thread: { question: string; answer: string }[];
+  question: string;
+};
+
+export function isFollowUpTarget(value: unknown): value is FollowUpTarget {
+  return (
+    value === "synthesis" ||
+    (AllowedTools as readonly unknown[]).includes(value)
+  );
+}
+
+/**
+ * Rebuild what the target said about the original decision from the replayed
+ * conversation. Returns null if the target never produced an output.
+ */
+export function extractFollowUpContext(
+  messages: MoralMessage[],
+  target: FollowUpTarget
+): FollowUpContext | null {
+  const users = messages.filter((m) => m.role === "user");
+  const decision = extractUserText(users.slice(0, 1));
+  const question = extractUserText(users.slice(-1));
+
+  let priorOutput = "";
+  const thread = new Map<string, { question: string; answer: string }>();
+
+  for (const m of messages) {
+    if (m.role !== "assistant") continue;
+    for (const part of m.parts) {
+      if (
+        part.type === "data-agent" &&
+        target !== "synthesis" &&
+        part.data.tool === target &&
+        part.data.output
+      ) {
+        priorOutput = String(part.data.output);
+      } else if (part.type === "data-synthesis" && target === "synthesis") {
+        priorOutput = part.data.summary;
+      } else if (
+        part.type === "data-followup" &&
+        part.data.target === target &&
+        part.data.status === "done"
+      ) {
+        const { question, answer } = part.data;
+        thread.set(part.id ?? question, { question, answer });
+      }
+    }
+  }
+
+  if (!decision || !priorOutput) return null;
+  return {
+    target,
+    decision,
+    priorOutput,
+    thread: Array.from(thread.values()),
+    question,
+  };
+}
+
+/**
+ * Apply `fn` to every text in the context. The decision, the prior output and
+ * the thread are replayed by the client just like the question, so each one
+ * gets the same injection, moderation and redaction checks.
+ */
+export function mapFollowUpContext(
+  context: FollowUpContext,
+  fn: (text: string) => string
+): FollowUpContext {
+  return {
+    ...context,
+    decision: fn(context.decision),
+    priorOutput: fn(context.priorOutput),
+    thread: context.thread.map((t) => ({
+      question: fn(t.question),
+      answer: fn(t.answer),
+    })),
+    question: fn(context.question),
+  };
+}
+
+/** All of the context's text in one blob, for moderation. */
+export function followUpText(context: FollowUpContext): string {
+  return [
+    context.decision,
+    context.priorOutput,
+    ...context.thread.flatMap((t) => [t.question, t.answer]),
+    context.question,
+  ].join("\n\n");
+}
+
+function personaFor(target: FollowUpTarget) {
+  return target === "synthesis"
+    ? "You are a decision ethics synthesizer AI who combined several expert perspectives into one recommendation."
+    : `You are the "${target}" expert agent. ${agentTools[target].description}`;
+}
+
+/** Answer a follow-up in the target's voice, streaming into one data part. */
+export async function streamFollowUpAnswer({
+  context,
+  language = detectLanguage(context.decision),
+  writer,
+  abortSignal,
+}: {
+  context: FollowUpContext;
+  // The analysis's language; a short question alone ("Warum?") can't tell it
+  language?: Language;
+  writer: UIMessageStreamWriter<MoralMessage>;
+  abortSignal?: AbortSignal;
+}) {
+  const { target, decision, priorOutput, thread, question } = context;
+  const id = `followup-${generateId()}`;
+
+  const messages: ModelMessage[] = [
+    { role: "user", content: `Decision: "${decision}"` },
+    { role: "assistant", content: priorOutput },
+    ...thread.flatMap(
+      (t): ModelMessage[] => [
+        { role: "user", content: t.question },
+        { role: "assistant", content: t.answer },
+      ]
+    ),
+    {
+      role: "user",
+      content: `
+${question}
+
+Answer within your area of expertise.
+- Overall <= 150 words
+      `.trim(),
+    },
+  ];
+
+  const result = streamText({
+    ...modelSettings(target, { temperature: 0.5, maxOutputTokens: 250 }),
+    abortSignal,
+    system: `${personaFor(
+      target
+    )} You already analyzed the decision below. Answer the user's follow-up consistently with your earlier analysis unless the question adds new facts. Be concise and practical. Do not use Markdown. ${languageInstruction(language)}`.trim(),
+    messages,
+  });
+
+  const write = (answer: string, status: FollowUpData["status"]) =>
+    writer.write({
+      type: "data-followup",
+      id,
+      data: { target, question, answer, status },
+    });
+
+  let answer = "";
+  write(answer, "running");
+  for await (const delta of result.textStream) {
+    answer += delta;
+    write(answer, "running");
+  }
+  write(answer, "done");
+}
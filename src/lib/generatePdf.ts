@@ -1,9 +1,68 @@
 import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { AgentLabels, type AgentName } from "@/lib/agents";
+import { LanguageNames } from "@/lib/language";
+import type {
+  Citation,
+  ComparisonData,
+  ConfidenceFactor,
+  Language,
+  PolicyClause,
+  RiskScorecard,
+  UsageData,
+} from "@/types/ai";
+
+const niceName = (agent: string) =>
+  AgentLabels[agent as AgentName] ??
+  agent.replace(/([A-Z])/g, " $1").replace(/^./, (s) => s.toUpperCase());
+
+// Typographic characters with a plain stand-in in WinAnsi
+const FALLBACKS: Record<string, string> = {
+  "→": "->",
+  "≥": ">=",
+  "≤": "<=",
+  "\u00a0": " ",
+  "\u202f": " ",
+  "\u2212": "-",
+  "\u2011": "-",
+};
+
+/**
+ * The standard fonts only encode WinAnsi, and drawText throws on anything
+ * else. Accented Latin letters are kept; other characters fall back to a
+ * stand-in, their base letter or "?".
+ */
+function toWinAnsi(text: string, supported: Set<number>): string {
+  let out = "";
+  for (const ch of text.normalize("NFC")) {
+    if (supported.has(ch.codePointAt(0)!)) out += ch;
+    else if (FALLBACKS[ch]) out += FALLBACKS[ch];
+    else if (ch === "\n" || ch === "\t") out += " ";
+    else {
+      const base = ch.normalize("NFD").replace(/\p{M}/gu, "");
+      out += [...base].every((c) => supported.has(c.codePointAt(0)!))
+        ? base
+        : "?";
+    }
+  }
+  return out;
+}
 
 export async function buildMoralCompassPdf(input: {
   decision: string;
+  jurisdictions?: string[];
   agentResults?: Record<string, string>;
-  synthesis?: { summary?: string; agentsUsed?: string[]; confidence?: number };
+  clauses?: PolicyClause[];
+  references?: (Citation & { agent: string })[];
+  synthesis?: {
+    summary?: string;
+    agentsUsed?: string[];
+    confidence?: number;
+    confidenceFactors?: ConfidenceFactor[];
+  };
+  comparison?: ComparisonData;
+  scorecard?: RiskScorecard;
+  usage?: UsageData;
+  language?: Language;
   timestamp?: string;
 }) {
   const doc = await PDFDocument.create();
@@ -12,6 +71,8 @@ export async function buildMoralCompassPdf(input: {
   const font = await doc.embedFont(StandardFonts.Helvetica);
   const bold = await doc.embedFont(StandardFonts.HelveticaBold);
   const bodySize = 11;
+  const charset = new Set(font.getCharacterSet());
+  const clean = (t: string) => toWinAnsi(t, charset);
 
   let page = doc.addPage(pageSize);
   let { width, height } = page.getSize();
@@ -24,12 +85,12 @@ export async function buildMoralCompassPdf(input: {
   };
   const draw = (t: string, size = bodySize, f = font) => {
     if (y < margin + 16) newPage();
-    page.drawText(t, { x: margin, y, size, font: f });
+    page.drawText(clean(t), { x: margin, y, size, font: f });
     y -= 16;
   };
   const wrap = (text: string, size: number) => {
     const maxWidth = width - margin * 2;
-    const words = text.split(/\s+/);
+    const words = clean(text).split(/\s+/);
     let line = "";
     const lines: string[] = [];
     for (const w of words) {
@@ -47,6 +108,15 @@ export async function buildMoralCompassPdf(input: {
   const drawWrapped = (t: string, size = bodySize) => {
     for (const ln of wrap(t, size)) draw(ln, size);
   };
+  const fit = (raw: string, maxWidth: number, size: number) => {
+    const text = clean(raw);
+    if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+    let t = text;
+    while (t && font.widthOfTextAtSize(t + "…", size) > maxWidth) {
+      t = t.slice(0, -1);
+    }
+    return t + "…";
+  };
 
   // Header
   draw("Moral Compass AI — Analysis Report", 20, bold);
@@ -65,26 +135,202 @@ export async function buildMoralCompassPdf(input: {
   // Decision
   draw("Decision Under Analysis", 14, bold);
   drawWrapped(input.decision);
+  if (input.jurisdictions?.length) {
+    draw(`Jurisdictions: ${input.jurisdictions.join(", ")}`, 10);
+  }
+  if (input.language && input.language !== "en") {
+    draw(`Output language: ${LanguageNames[input.language]}`, 10);
+  }
 
   // Agent results
   if (input.agentResults && Object.keys(input.agentResults).length) {
     draw("Agent Analysis", 14, bold);
     for (const [agent, result] of Object.entries(input.agentResults)) {
-      const nice = agent
-        .replace(/([A-Z])/g, " $1")
-        .replace(/^./, (s) => s.toUpperCase());
-      draw(`${nice}:`, 12, bold);
+      draw(`${niceName(agent)}:`, 12, bold);
       drawWrapped(result, 10);
     }
   }
 
+  // Internal policy clauses the decision violates or satisfies
+  if (input.clauses?.length) {
+    draw("Policy Clauses", 14, bold);
+    for (const c of input.clauses) {
+      drawWrapped(
+        `[${c.status.toUpperCase()}] ${c.policy} ${c.clause}: ${c.explanation}${
+          c.evidence ? ` ${c.evidence}` : ""
+        }`,
+        10
+      );
+    }
+  }
+
+  // Sources the agents cited, by agent and marker
+  if (input.references?.length) {
+    draw("References", 14, bold);
+    for (const r of input.references) {
+      const where = [
+        r.title ?? "Untitled source",
+        r.publisher,
+        r.section,
+        r.page ? `p. ${r.page}` : undefined,
+      ].filter(Boolean);
+      drawWrapped(
+        `${niceName(r.agent)} ${r.marker} ${where.join(", ")}${
+          r.url ? `. ${r.url}` : ""
+        }`,
+        9
+      );
+    }
+  }
+
+  // Comparison table (options × agents)
+  const cmp = input.comparison;
+  if (cmp?.options.length) {
+    draw("Option Comparison", 14, bold);
+    const size = 9;
+    const labelWidth = 120;
+    const colWidth = (width - margin * 2 - labelWidth) / cmp.options.length;
+    const row = (label: string, values: string[], f = font) => {
+      if (y < margin + 16) newPage();
+      page.drawText(fit(label, labelWidth - 6, size), {
+        x: margin,
+        y,
+        size,
+        font: f,
+      });
+      values.forEach((v, i) =>
+        page.drawText(fit(v, colWidth - 6, size), {
+          x: margin + labelWidth + i * colWidth,
+          y,
+          size,
+          font: f,
+        })
+      );
+      y -= 14;
+    };
+
+    row(
+      "Agent (score 0-10)",
+      cmp.options.map((o) => o.name),
+      bold
+    );
+    const agents = Array.from(new Set(cmp.cells.map((c) => c.agent)));
+    for (const agent of agents) {
+      const winner = cmp.dimensionWinners.find((w) => w.agent === agent);
+      row(
+        niceName(agent),
+        cmp.options.map((o) => {
+          const cell = cmp.cells.find(
+            (c) => c.agent === agent && c.option === o.name
+          );
+          if (!cell || cell.score === null || cell.missing) return "—";
+          return winner?.option === o.name
+            ? `${cell.score} (best)`
+            : String(cell.score);
+        })
+      );
+    }
+
+    if (cmp.ranking?.length) {
+      y -= 4;
+      draw("Ranking", 12, bold);
+      cmp.ranking.forEach((r, i) =>
+        drawWrapped(`${i + 1}. ${r.option} — ${r.rationale}`, 10)
+      );
+    }
+  }
+
   // Synthesis
   const syn = input.synthesis ?? {};
   draw("Synthesis & Recommendation", 14, bold);
   drawWrapped(syn.summary ?? "No synthesis provided.");
   draw(`Confidence: ${Math.round((syn.confidence ?? 0.5) * 100)}%`, 10);
+  for (const f of syn.confidenceFactors ?? []) {
+    drawWrapped(
+      `${f.label}: ${Math.round(f.score * 100)}% (weight ${Math.round(
+        f.weight * 100
+      )}%) — ${f.detail}`,
+      9
+    );
+  }
   draw(`Agents Consulted: ${(syn.agentsUsed ?? []).join(", ") || "—"}`, 10);
 
+  // Risk scorecard (horizontal bars, 0-10)
+  const card = input.scorecard;
+  if (card?.dimensions.length) {
+    y -= 4;
+    draw("Risk Scorecard", 14, bold);
+    draw(
+      `Overall risk index: ${card.overall.toFixed(1)}/10 (weighted)`,
+      10
+    );
+    const size = 9;
+    const labelWidth = 120;
+    const valueWidth = 70;
+    const barWidth = width - margin * 2 - labelWidth - valueWidth;
+    for (const d of card.dimensions) {
+      if (y < margin + 16) newPage();
+      page.drawText(fit(d.label, labelWidth - 6, size), {
+        x: margin,
+        y,
+        size,
+        font: d.agent === card.dominant ? bold : font,
+      });
+      page.drawRectangle({
+        x: margin + labelWidth,
+        y: y - 1,
+        width: barWidth,
+        height: 9,
+        color: rgb(0.92, 0.92, 0.92),
+      });
+      page.drawRectangle({
+        x: margin + labelWidth,
+        y: y - 1,
+        width: (barWidth * d.score) / 10,
+        height: 9,
+        color:
+          d.score >= 7
+            ? rgb(0.8, 0.2, 0.2)
+            : d.score >= 4
+            ? rgb(0.9, 0.6, 0.1)
+            : rgb(0.2, 0.6, 0.3),
+      });
+      page.drawText(
+        `${d.score.toFixed(1)}${d.weight !== 1 ? ` (x${d.weight})` : ""}`,
+        { x: margin + labelWidth + barWidth + 6, y, size, font }
+      );
+      y -= 14;
+    }
+  }
+
+  // Usage & cost
+  const usage = input.usage;
+  if (usage?.lines.length) {
+    y -= 4;
+    draw("Usage & Cost", 14, bold);
+    const { totals } = usage;
+    draw(
+      `Total: $${totals.cost.toFixed(4)} — ${totals.inputTokens} input, ${totals.outputTokens} output, ${totals.embeddingTokens} embedding tokens in ${totals.calls} calls`,
+      10
+    );
+    for (const l of usage.lines) {
+      drawWrapped(
+        `${niceName(l.role)} (${l.model}): ${l.calls} calls, ${
+          l.embeddingTokens
+            ? `${l.embeddingTokens} embedding tokens`
+            : `${l.inputTokens} in / ${l.outputTokens} out`
+        }, $${l.cost.toFixed(4)}`,
+        9
+      );
+    }
+    if (usage.unpricedModels?.length) {
+      drawWrapped(
+        `No price configured for: ${usage.unpricedModels.join(", ")} (counted as $0).`,
+        9
+      );
+    }
+  }
+
   const bytes = await doc.save();
   return new Uint8Array(bytes);
 }
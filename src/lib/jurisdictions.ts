@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+// ---- jurisdictions: where a decision applies, e.g. ["US-CA", "US-NY", "EU"] ----
+
+/** Upper-case codes like "eu" or "us-ca"; keep names like "Ontario" as written. */
+export function normalizeJurisdiction(j: string): string {
+  const t = j.trim().replace(/\s+/g, " ");
+  return /^[a-z]{2,3}(-[a-z0-9]{1,3})?$/i.test(t) ? t.toUpperCase() : t;
+}
+
+const JurisdictionsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(2, "Jurisdictions need at least 2 characters.")
+      .max(40, "Jurisdictions are at most 40 characters.")
+      // Names and codes only; these strings go into agent prompts
+      .regex(/^[\p{L}\p{N} .'()-]+$/u, "Use a name or code such as EU or US-CA.")
+  )
+  .min(1, "Provide at least 1 jurisdiction.")
+  .max(5, "Provide at most 5 jurisdictions.");
+
+/** Validate the optional `jurisdictions` field of a decision request. */
+export function parseJurisdictions(
+  raw: unknown
+): { valid: true; jurisdictions?: string[] } | { valid: false; error: string } {
+  if (raw === undefined || raw === null) return { valid: true };
+
+  const parsed = JurisdictionsSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      error: `Invalid jurisdictions: ${parsed.error.issues
+        .map((i) => i.message)
+        .join("; ")}`,
+    };
+  }
+  // Collapse duplicates such as "eu" and "EU"
+  return {
+    valid: true,
+    jurisdictions: Array.from(new Set(parsed.data.map(normalizeJurisdiction))),
+  };
+}
+
+/** Cache partition, so the same decision in different places never collides. */
+export function jurisdictionScope(jurisdictions?: string[]): string {
+  return jurisdictions?.length
+    ? `jurisdictions=${[...jurisdictions].sort().join(",")}`
+    : "";
+}
+
+/**
+ * Split an ingestion `jurisdiction` such as "US/Global" into the tags stored
+ * on each passage.
+ */
+export function splitJurisdiction(value: string): string[] {
+  return value
+    .split(/[/,;]/)
+    .map((j) => j.trim())
+    .filter(Boolean)
+    .map(normalizeJurisdiction);
+}
+
+/**
+ * Passage tags that apply to the requested jurisdictions: each one, its parent
+ * ("US-CA" also matches "US") and anything tagged "Global".
+ */
+export function jurisdictionTags(jurisdictions: string[]): string[] {
+  const tags = new Set(["Global"]);
+  for (const j of jurisdictions) {
+    tags.add(j);
+    const parent = j.match(/^([A-Z]{2,3})-/)?.[1];
+    if (parent) tags.add(parent);
+  }
+  return [...tags];
+}
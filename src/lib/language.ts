@@ -0,0 +1,90 @@
+import type { Language } from "@/types/ai";
+
+// ---- languages: detect the decision's language and answer in it ----
+
+export const Languages = ["en", "de", "fr", "es", "it"] as const;
+
+/** How prompts name each language. */
+export const LanguageNames: Record<Language, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+};
+
+// Frequent function words; a decision of a sentence or two has several
+const STOPWORDS: Record<Language, string[]> = {
+  en: ["the", "and", "of", "to", "is", "are", "we", "our", "should", "with", "for", "this", "that", "would"],
+  de: ["der", "die", "das", "und", "ist", "wir", "unsere", "unser", "nicht", "mit", "für", "sollten", "wollen", "eine", "einen", "auf", "werden"],
+  fr: ["le", "la", "les", "et", "des", "est", "nous", "notre", "nos", "pour", "avec", "une", "que", "devrions", "sur", "dans"],
+  es: ["el", "los", "las", "y", "es", "nosotros", "nuestra", "nuestro", "para", "con", "una", "que", "deberíamos", "por", "en"],
+  it: ["il", "lo", "gli", "e", "è", "noi", "nostra", "nostro", "per", "con", "una", "che", "dovremmo", "della", "nel"],
+};
+
+// Letters that all but settle it
+const MARKERS: Partial<Record<Language, RegExp>> = {
+  de: /[äöüß]/gi,
+  fr: /[çœêèë]|\b(?:l|d|qu)['’]/gi,
+  es: /[ñ¿¡]/gi,
+  it: /(?<!\p{L})(?:perché|però|più|già)(?!\p{L})/giu,
+};
+
+/**
+ * Best guess at the language of `text`, from function words and telltale
+ * letters. Runs offline on every request, so it stays a heuristic; short or
+ * ambiguous text falls back to English.
+ */
+export function detectLanguage(text: string): Language {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const counts = new Map<string, number>();
+  for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1);
+
+  let best: Language = "en";
+  let bestScore = 0;
+  for (const lang of Languages) {
+    const marker = MARKERS[lang];
+    const score =
+      STOPWORDS[lang].reduce((n, w) => n + (counts.get(w) ?? 0), 0) +
+      (marker ? 2 * (text.match(marker)?.length ?? 0) : 0);
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  }
+  return bestScore >= 2 ? best : "en";
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return Languages.includes(value as Language);
+}
+
+/** Validate the optional `language` field of a request ("auto" = detect). */
+export function parseLanguage(
+  raw: unknown
+): { valid: true; language?: Language } | { valid: false; error: string } {
+  if (raw === undefined || raw === null || raw === "auto") {
+    return { valid: true };
+  }
+  if (!isLanguage(raw)) {
+    return {
+      valid: false,
+      error: `Unsupported language. Use one of: auto, ${Languages.join(", ")}.`,
+    };
+  }
+  return { valid: true, language: raw };
+}
+
+/**
+ * Appended to prompts whose output the user reads. Enum values stay in
+ * English so the schemas, scorecard and UI keep working.
+ */
+export function languageInstruction(language?: Language): string {
+  if (!language || language === "en") return "";
+  return `Write all free text in ${LanguageNames[language]}. Keep the fixed values listed in the instructions (such as severity, likelihood, recommendation and status) exactly as written in English.`;
+}
+
+/** Cache partition; English keeps the scope it had before languages existed. */
+export function languageScope(language?: Language): string {
+  return language && language !== "en" ? `lang=${language}` : "";
+}
@@ -0,0 +1,471 @@
+import { createHash } from "node:crypto";
+import type { EmbeddingModel, JSONSchema7, LanguageModel } from "ai";
+import type { VectorRecord } from "./vectorStore";
+import { splitJurisdiction } from "./jurisdictions";
+
+// ---- MOCK_MODE: deterministic, offline stand-ins for every external service ----
+
+export function isMockMode(): boolean {
+  const v = process.env.MOCK_MODE?.toLowerCase();
+  return v === "1" || v === "true";
+}
+
+type MockModel = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<MockModel["doGenerate"]>[0];
+type Content = Awaited<ReturnType<MockModel["doGenerate"]>>["content"][number];
+type StreamPart =
+  Awaited<ReturnType<MockModel["doStream"]>>["stream"] extends ReadableStream<
+    infer P
+  >
+    ? P
+    : never;
+type PromptMessage = CallOptions["prompt"][number];
+
+/** Stable pseudo-random number in [0, 1) for a seed. */
+function unit(seed: string): number {
+  return createHash("sha256").update(seed).digest().readUInt32BE(0) / 2 ** 32;
+}
+
+const pick = <T>(items: readonly T[], seed: string): T =>
+  items[Math.floor(unit(seed) * items.length)];
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function textOf(message: PromptMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((p) => (p.type === "text" ? p.text : ""))
+    .join("\n");
+}
+
+function decisionOf(prompt: CallOptions["prompt"]): string {
+  const all = prompt.map(textOf).join("\n");
+  const quoted = all.match(/Decision: "([\s\S]*?)"/);
+  if (quoted) return quoted[1];
+  const user = prompt.find((m) => m.role === "user");
+  return user ? textOf(user) : "";
+}
+
+const excerpt = (text: string, max = 60) =>
+  text.length > max ? `${text.slice(0, max).trim()}…` : text;
+
+const ASSESSMENTS = [
+  "low concern; proceed with routine monitoring",
+  "moderate concern; document assumptions and add a review checkpoint",
+  "material concern; mitigate before launch and assign an owner",
+  "significant concern; pilot with a limited group first",
+] as const;
+
+/** Answer each bullet of the prompt's rubric, as the real agents do. */
+function mockAnalysis(role: string, prompt: CallOptions["prompt"]): string {
+  const decision = decisionOf(prompt);
+  const last = [...prompt].reverse().find((m) => m.role === "user");
+  const rubric = (last ? textOf(last) : "")
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l.startsWith("- ") && !/<=\s*\d+\s*words/i.test(l))
+    .map((l) => l.slice(2));
+
+  if (!rubric.length) {
+    return `[mock ${role}] For "${excerpt(decision)}": ${pick(
+      ASSESSMENTS,
+      `${role}:${decision}`
+    )}.`;
+  }
+  return rubric
+    .map(
+      (item) =>
+        `- ${item}: ${pick(ASSESSMENTS, `${role}:${item}:${decision}`)}.`
+    )
+    .join("\n");
+}
+
+/** Build a value that satisfies a JSON schema, deterministically per seed. */
+function fakeValue(
+  schema: JSONSchema7 | boolean | undefined,
+  key: string,
+  seed: string
+): unknown {
+  if (!schema || typeof schema === "boolean") return null;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return pick(schema.enum, seed);
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives?.length) {
+    const first = alternatives.find(
+      (a) => typeof a === "object" && a.type !== "null"
+    );
+    return fakeValue(first as JSONSchema7 | undefined, key, seed);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== "null")
+    : schema.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([k, v]) => [
+          k,
+          fakeValue(v, k, `${seed}.${k}`),
+        ])
+      );
+    case "array": {
+      const items =
+        typeof schema.items === "object" && !Array.isArray(schema.items)
+          ? schema.items
+          : undefined;
+      const max = schema.maxItems ?? Infinity;
+      // Enumerations get one entry per value, e.g. one score per option
+      if (items?.enum?.length) return items.enum.slice(0, max);
+      const enumProp = Object.entries(items?.properties ?? {}).find(
+        ([, v]) => typeof v === "object" && v.enum?.length
+      );
+      if (items && enumProp) {
+        const [name, prop] = enumProp as [string, JSONSchema7];
+        return prop.enum!.slice(0, max).map((value, i) => ({
+          ...(fakeValue(items, key, `${seed}[${i}]`) as object),
+          [name]: value,
+        }));
+      }
+      const count = Math.min(Math.max(schema.minItems ?? 1, 1), max);
+      return Array.from({ length: count }, (_, i) =>
+        fakeValue(items, key, `${seed}[${i}]`)
+      );
+    }
+    case "number":
+    case "integer": {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 10;
+      // Stay in the upper band so mock decisions look well-specified and confident
+      const n = min + (0.6 + 0.4 * unit(seed)) * (max - min);
+      return type === "integer" ? Math.round(n) : Math.round(n * 100) / 100;
+    }
+    case "boolean":
+      return unit(seed) < 0.5;
+    default:
+      return `Mock ${key}: ${pick(ASSESSMENTS, seed)}.`;
+  }
+}
+
+const ROUTER_ONLY_TOOLS = new Set(["synthesis", "generatePdfLog"]);
+
+/**
+ * Router turn: call every available agent, then synthesis, then the PDF log,
+ * then stop, mirroring what the system prompt asks of the real router.
+ */
+function mockRouterStep(options: CallOptions): Content[] {
+  const tools = (options.tools ?? []).map((t) => t.name);
+  const decision = decisionOf(options.prompt);
+
+  const calls = options.prompt.flatMap((m) =>
+    m.role === "assistant"
+      ? m.content.flatMap((p) => (p.type === "tool-call" ? [p.toolName] : []))
+      : []
+  );
+  const results = new Map<string, string>();
+  for (const m of options.prompt) {
+    if (m.role !== "tool") continue;
+    for (const p of m.content) {
+      const out = p.output;
+      results.set(
+        p.toolName,
+        out.type === "text" || out.type === "error-text"
+          ? out.value
+          : JSON.stringify(out.value)
+      );
+    }
+  }
+  const agentsCalled = calls.filter((c) => !ROUTER_ONLY_TOOLS.has(c));
+
+  const call = (toolName: string, input: unknown): Content => ({
+    type: "tool-call",
+    toolCallId: `mock-${toolName}-${calls.length}`,
+    toolName,
+    input: JSON.stringify(input),
+  });
+  const synthesisInput = {
+    summary: `[mock synthesis] ${excerpt(decision)}: ${pick(
+      ASSESSMENTS,
+      `synthesis:${decision}`
+    )}.`,
+    agentsUsed: agentsCalled,
+  };
+
+  if (options.toolChoice?.type === "tool") {
+    return [call(options.toolChoice.toolName, { decision })];
+  }
+  const pending = tools.filter(
+    (t) => !ROUTER_ONLY_TOOLS.has(t) && !calls.includes(t)
+  );
+  if (pending.length && !calls.includes("synthesis")) {
+    return pending.map((t) => call(t, { decision }));
+  }
+  if (tools.includes("synthesis") && !calls.includes("synthesis")) {
+    return [call("synthesis", synthesisInput)];
+  }
+  if (tools.includes("generatePdfLog") && !calls.includes("generatePdfLog")) {
+    return [
+      call("generatePdfLog", {
+        decision,
+        agentResults: Object.fromEntries(
+          agentsCalled.map((a) => [a, results.get(a) ?? ""])
+        ),
+        synthesis: synthesisInput,
+      }),
+    ];
+  }
+  return [{ type: "text", text: "Analysis complete." }];
+}
+
+function mockRespond(role: string, options: CallOptions): Content[] {
+  if (options.responseFormat?.type === "json") {
+    const value = fakeValue(
+      options.responseFormat.schema as JSONSchema7 | undefined,
+      role,
+      `${role}:${decisionOf(options.prompt)}`
+    );
+    return [{ type: "text", text: JSON.stringify(value) }];
+  }
+  if (options.tools?.length) return mockRouterStep(options);
+  return [{ type: "text", text: mockAnalysis(role, options.prompt) }];
+}
+
+function usageOf(options: CallOptions, content: Content[]) {
+  const inputTokens = estimateTokens(options.prompt.map(textOf).join("\n"));
+  const outputTokens = estimateTokens(
+    content
+      .map((c) =>
+        c.type === "text" ? c.text : c.type === "tool-call" ? c.input : ""
+      )
+      .join("")
+  );
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/** Fake language model for a registry role; answers depend only on the prompt. */
+export function mockLanguageModel(role: string): MockModel {
+  const generate = async (options: CallOptions) => {
+    options.abortSignal?.throwIfAborted();
+    const content = mockRespond(role, options);
+    return {
+      content,
+      finishReason: content.some((c) => c.type === "tool-call")
+        ? ("tool-calls" as const)
+        : ("stop" as const),
+      usage: usageOf(options, content),
+      warnings: [],
+    };
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: role,
+    supportedUrls: {},
+    doGenerate: generate,
+    async doStream(options) {
+      const { content, finishReason, usage } = await generate(options);
+      const parts: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+      content.forEach((c, i) => {
+        if (c.type === "tool-call") {
+          parts.push(c);
+          return;
+        }
+        if (c.type !== "text") return;
+        const id = `text-${i}`;
+        parts.push({ type: "text-start", id });
+        for (const delta of c.text.match(/\S+\s*/g) ?? []) {
+          parts.push({ type: "text-delta", id, delta });
+        }
+        parts.push({ type: "text-end", id });
+      });
+      parts.push({ type: "finish", finishReason, usage });
+
+      return {
+        stream: new ReadableStream<StreamPart>({
+          start(controller) {
+            for (const p of parts) controller.enqueue(p);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+// ---- hash-based embeddings: shared words => nearby vectors ----
+
+const EMBEDDING_DIMENSIONS = 256;
+
+export function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const h = createHash("md5").update(word).digest();
+    vector[h.readUInt16BE(0) % EMBEDDING_DIMENSIONS] +=
+      h[2] & 1 ? 1 : -1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((v) => v / norm);
+}
+
+export function mockEmbeddingModel(): Exclude<EmbeddingModel<string>, string> {
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: "hash-embedding",
+    maxEmbeddingsPerCall: Infinity,
+    supportsParallelCalls: true,
+    async doEmbed({ values, abortSignal }) {
+      abortSignal?.throwIfAborted();
+      return {
+        embeddings: values.map(hashEmbedding),
+        usage: { tokens: estimateTokens(values.join(" ")) },
+      };
+    },
+  };
+}
+
+// A few passages per evidence domain so agents have something to cite offline
+const SEED_EVIDENCE: {
+  id: string;
+  text: string;
+  url: string;
+  jurisdiction: string;
+  domain?: string; // defaults to "aiRisk"
+  title?: string;
+  publisher?: string;
+  heading?: string;
+  page?: number;
+}[] = [
+  {
+    id: "mock-ai-act",
+    text: "High-risk AI systems used in employment, credit or essential services must undergo conformity assessment, keep logs, and provide human oversight and transparency to affected persons.",
+    url: "mock://eu-ai-act",
+    jurisdiction: "EU",
+    title: "EU AI Act",
+    publisher: "European Union",
+    heading: "Chapter III: High-risk AI systems",
+    page: 46,
+  },
+  {
+    id: "mock-bias-audit",
+    text: "Automated decision tools should be audited for disparate impact across protected groups before deployment and at regular intervals, with results documented and remediated.",
+    url: "mock://bias-audit-guidance",
+    jurisdiction: "US",
+  },
+  {
+    id: "mock-explainability",
+    text: "Organizations should be able to explain the main factors behind an automated decision and offer a route to contest it with a human reviewer.",
+    url: "mock://explainability-guidance",
+    jurisdiction: "Global",
+  },
+  {
+    id: "mock-ai-use-policy",
+    text: "§4.2 Any AI system that makes or materially influences decisions about customers, patients or employees requires approval from the AI Governance Board and a documented human-in-the-loop review before launch.",
+    url: "mock://ai-use-policy",
+    jurisdiction: "Global",
+    domain: "policy",
+    title: "AI Use Policy",
+    heading: "4. High-impact AI systems",
+  },
+  {
+    id: "mock-procurement-policy",
+    text: "§3.1 Vendors that process personal or confidential data must pass a security and privacy assessment and sign the standard data processing agreement before any contract is awarded.",
+    url: "mock://procurement-policy",
+    jurisdiction: "Global",
+    domain: "policy",
+    title: "Procurement Policy",
+    heading: "3. Vendor due diligence",
+  },
+  {
+    id: "mock-code-of-conduct",
+    text: "§2.4 Employees must treat colleagues, customers and partners fairly and must not use tools or criteria that discriminate on the basis of protected characteristics.",
+    url: "mock://code-of-conduct",
+    jurisdiction: "Global",
+    domain: "policy",
+    title: "Code of Conduct",
+    heading: "2. Fair treatment",
+  },
+  {
+    id: "mock-warn-act",
+    text: "Employers with 100 or more employees must give 60 days' written notice before a plant closing or mass layoff affecting 50 or more workers at a single site.",
+    url: "mock://warn-act-summary",
+    jurisdiction: "US",
+    domain: "law",
+    title: "WARN Act summary",
+    publisher: "U.S. Department of Labor",
+    page: 2,
+  },
+  {
+    id: "mock-epa-emissions",
+    text: "New or modified facilities that emit air pollutants above permit thresholds need a construction permit and must apply the best available control technology.",
+    url: "mock://epa-permitting-guidance",
+    jurisdiction: "US",
+    domain: "environment",
+    title: "EPA permitting guidance",
+    publisher: "U.S. Environmental Protection Agency",
+  },
+  {
+    id: "mock-who-workplace",
+    text: "Job insecurity, long working hours and low control over work are established risk factors for depression, anxiety and cardiovascular disease among workers.",
+    url: "mock://who-mental-health-at-work",
+    jurisdiction: "Global",
+    domain: "publicHealth",
+    title: "WHO guidelines on mental health at work",
+    publisher: "World Health Organization",
+    page: 7,
+  },
+  {
+    id: "mock-eeoc-adverse-impact",
+    text: "A selection rate for any protected group that is less than four-fifths of the rate for the group with the highest rate is generally regarded as evidence of adverse impact.",
+    url: "mock://uniform-guidelines",
+    jurisdiction: "US",
+    domain: "dei",
+    title: "Uniform Guidelines on Employee Selection Procedures",
+    publisher: "EEOC",
+    heading: "§1607.4 Information on impact",
+  },
+];
+
+/** The seeded passages as records for the in-memory evidence namespace. */
+export function seedEvidence(): VectorRecord[] {
+  return SEED_EVIDENCE.map((d) => ({
+    id: d.id,
+    values: hashEmbedding(d.text),
+    metadata: {
+      text: d.text,
+      url: d.url,
+      doc_id: d.id,
+      domain: d.domain ?? "aiRisk",
+      jurisdiction: d.jurisdiction,
+      jurisdictions: splitJurisdiction(d.jurisdiction),
+      ...(d.title ? { title: d.title } : {}),
+      ...(d.publisher ? { publisher: d.publisher } : {}),
+      ...(d.heading ? { heading: d.heading } : {}),
+      ...(d.page ? { page: d.page } : {}),
+    },
+  }));
+}
+
+// ---- rules-based moderator ----
+
+const MODERATION_RULES: Record<string, RegExp> = {
+  violence: /\b(kill|murder|massacre|shoot (up|them)|bomb (the|a))\b/i,
+  "self-harm": /\b(suicide|self[- ]harm|hurt myself)\b/i,
+  hate: /\b(genocide|ethnic cleansing|inferior race)\b/i,
+  illicit: /\b(make (a )?(bomb|weapon|meth)|launder(ing)? money)\b/i,
+};
+
+export function mockModerate(text: string): {
+  allowed: boolean;
+  categories: Record<string, boolean>;
+} {
+  const categories = Object.fromEntries(
+    Object.entries(MODERATION_RULES).map(([k, re]) => [k, re.test(text)])
+  );
+  return {
+    allowed: !Object.values(categories).some(Boolean),
+    categories,
+  };
+}
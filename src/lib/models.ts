@@ -0,0 +1,325 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createOpenAI, type OpenAIProvider } from "@ai-sdk/openai";
+import {
+  wrapLanguageModel,
+  type EmbeddingModel,
+  type LanguageModel,
+} from "ai";
+import OpenAI from "openai";
+import { z } from "zod";
+import {
+  AllowedTools,
+  agentDefinitions,
+  getAgentDefinition,
+  type AgentName,
+} from "./agents";
+import { isMockMode, mockEmbeddingModel, mockLanguageModel } from "./mock";
+import { currentUsage } from "./usage";
+
+// ---- central model registry: every LLM, embedding and moderation call resolves here ----
+
+export const ModelRoles = [
+  "router",
+  ...AllowedTools,
+  "synthesis",
+  "embeddings",
+  "moderation",
+] as const;
+
+export type ModelRole = (typeof ModelRoles)[number];
+export type LanguageRole = "router" | AgentName | "synthesis";
+
+const ProviderSchema = z.object({
+  // Any OpenAI-compatible server, e.g. http://localhost:11434/v1 (Ollama)
+  baseURL: z.url(),
+  // Name of the env var holding the key; local servers usually need none
+  apiKeyEnv: z.string().optional(),
+});
+
+const RoleSchema = z.object({
+  provider: z.string().default("openai"),
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+});
+
+// Moderation "provider" for servers without a /v1/moderations endpoint
+const NO_PROVIDER = "none";
+
+// `{ "provider": "none" }` needs no model
+const NoProviderSchema = z
+  .object({ provider: z.literal(NO_PROVIDER) })
+  .transform(({ provider }): RoleConfig => ({ provider, model: provider }));
+
+// USD per 1M tokens; embeddings only use `input`
+const PriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0).default(0),
+});
+
+const RegistrySchema = z.object({
+  providers: z.record(z.string(), ProviderSchema).default({}),
+  // Keyed by model id; merged over DEFAULT_PRICES
+  prices: z.record(z.string(), PriceSchema).default({}),
+  // Fallback for language roles without their own entry
+  defaults: RoleSchema.optional(),
+  roles: z
+    .partialRecord(z.enum(ModelRoles), z.union([NoProviderSchema, RoleSchema]))
+    .default({}),
+});
+
+type RoleConfig = z.infer<typeof RoleSchema>;
+type Registry = z.infer<typeof RegistrySchema>;
+
+const BUILT_IN: Record<"language" | "embeddings" | "moderation", RoleConfig> = {
+  language: { provider: "openai", model: "gpt-4.1-nano" },
+  embeddings: { provider: "openai", model: "text-embedding-3-small" },
+  moderation: { provider: "openai", model: "omni-moderation-latest" },
+};
+
+const DEFAULT_PRICES: Record<string, z.infer<typeof PriceSchema>> = {
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+};
+
+let registry: Registry | undefined;
+
+/**
+ * Load `models.config.json` (or the file named by MODEL_CONFIG) once.
+ * Loaded lazily so scripts can populate env vars with dotenv first.
+ */
+function loadRegistry(): Registry {
+  if (registry) return registry;
+
+  const file = path.resolve(
+    process.cwd(),
+    process.env.MODEL_CONFIG || "models.config.json"
+  );
+  let raw: unknown = {};
+  if (fs.existsSync(file)) {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } else if (process.env.MODEL_CONFIG) {
+    throw new Error(`Model config not found: ${file}`);
+  }
+
+  const parsed = RegistrySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid model config ${file}: ${parsed.error.issues
+        .map((i) => `${i.path.join(".")}: ${i.message}`)
+        .join("; ")}`
+    );
+  }
+
+  const known = new Set(["openai", ...Object.keys(parsed.data.providers)]);
+  const roles = [
+    ...Object.entries(parsed.data.roles),
+    ["defaults", parsed.data.defaults] as const,
+    // Agent definitions may name a provider too
+    ...agentDefinitions.map(
+      (d) =>
+        [
+          `agent ${d.name}`,
+          d.model.provider ? { provider: d.model.provider } : undefined,
+        ] as const
+    ),
+  ];
+  for (const [role, config] of roles) {
+    // Moderation alone may opt out of a provider (see moderationModel)
+    if (role === "moderation" && config?.provider === NO_PROVIDER) continue;
+    if (config && !known.has(config.provider)) {
+      throw new Error(
+        `Invalid model config ${file}: ${role} uses unknown provider "${config.provider}"`
+      );
+    }
+  }
+
+  registry = parsed.data;
+  return registry;
+}
+
+function roleConfig(role: ModelRole): RoleConfig {
+  const { roles, defaults } = loadRegistry();
+  if (role === "embeddings" || role === "moderation") {
+    return roles[role] ?? BUILT_IN[role];
+  }
+  // An agent's own definition comes between the registry and the defaults
+  const agentModel = getAgentDefinition(role)?.model;
+  const fromAgent: RoleConfig | undefined = agentModel?.model
+    ? { provider: agentModel.provider ?? "openai", model: agentModel.model }
+    : undefined;
+  return roles[role] ?? fromAgent ?? defaults ?? BUILT_IN.language;
+}
+
+/**
+ * Env var that must hold an API key for `role`'s provider: OPENAI_API_KEY
+ * for OpenAI itself, the provider's `apiKeyEnv` otherwise (often none).
+ */
+export function apiKeyEnvFor(role: ModelRole): string | undefined {
+  const { provider } = roleConfig(role);
+  if (provider === NO_PROVIDER) return undefined;
+  const config = loadRegistry().providers[provider];
+  return config ? config.apiKeyEnv : "OPENAI_API_KEY";
+}
+
+const providers = new Map<string, OpenAIProvider>();
+
+function providerFor(name: string): OpenAIProvider {
+  const cached = providers.get(name);
+  if (cached) return cached;
+
+  const config = loadRegistry().providers[name];
+  const provider = config
+    ? createOpenAI({
+        name,
+        baseURL: config.baseURL,
+        apiKey: config.apiKeyEnv ? process.env[config.apiKeyEnv] : "not-needed",
+      })
+    : createOpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  providers.set(name, provider);
+  return provider;
+}
+
+/** Add one call's tokens and cost to the current request's meter. */
+function meter(
+  role: string,
+  provider: string,
+  model: string,
+  tokens: { input?: number; output?: number; embedding?: number }
+) {
+  const usage = currentUsage();
+  if (!usage) return;
+  const price =
+    provider === "mock"
+      ? { input: 0, output: 0 }
+      : loadRegistry().prices[model] ?? DEFAULT_PRICES[model];
+  const input = tokens.input ?? tokens.embedding ?? 0;
+  usage.record({
+    role,
+    model,
+    inputTokens: tokens.input,
+    outputTokens: tokens.output,
+    embeddingTokens: tokens.embedding,
+    cost: price
+      ? (input * price.input + (tokens.output ?? 0) * price.output) / 1e6
+      : 0,
+    priced: Boolean(price),
+  });
+}
+
+/** The language model assigned to a role, metered per call. */
+export function languageModel(role: LanguageRole): LanguageModel {
+  const { provider, model } = isMockMode()
+    ? { provider: "mock", model: `mock-${role}` }
+    : roleConfig(role);
+  // Compatible servers implement Chat Completions, not the Responses API
+  const base =
+    provider === "mock"
+      ? mockLanguageModel(role)
+      : provider === "openai"
+      ? providerFor(provider)(model)
+      : providerFor(provider).chat(model);
+
+  return wrapLanguageModel({
+    model: base,
+    middleware: {
+      wrapGenerate: async ({ doGenerate }) => {
+        const result = await doGenerate();
+        meter(role, provider, model, {
+          input: result.usage.inputTokens,
+          output: result.usage.outputTokens,
+        });
+        return result;
+      },
+      wrapStream: async ({ doStream }) => {
+        const { stream, ...rest } = await doStream();
+        return {
+          ...rest,
+          stream: stream.pipeThrough(
+            new TransformStream({
+              transform(part, controller) {
+                if (part.type === "finish") {
+                  meter(role, provider, model, {
+                    input: part.usage.inputTokens,
+                    output: part.usage.outputTokens,
+                  });
+                }
+                controller.enqueue(part);
+              },
+            })
+          ),
+        };
+      },
+    },
+  });
+}
+
+/**
+ * Model plus sampling settings for a call. The call site passes the defaults
+ * that suit its prompt; values set in the registry override them.
+ */
+export function modelSettings(
+  role: LanguageRole,
+  defaults: { temperature?: number; maxOutputTokens?: number } = {}
+) {
+  const { temperature, maxOutputTokens } = roleConfig(role);
+  return {
+    model: languageModel(role),
+    temperature: temperature ?? defaults.temperature,
+    maxOutputTokens: maxOutputTokens ?? defaults.maxOutputTokens,
+  };
+}
+
+/**
+ * Embedding model shared by retrieval, the semantic cache and ingestion.
+ * `owner` labels the calls in usage accounting (e.g. the agent retrieving).
+ */
+export function embeddingModel(owner = "embeddings"): EmbeddingModel<string> {
+  const { provider, model } = isMockMode()
+    ? { provider: "mock", model: "mock-embedding" }
+    : roleConfig("embeddings");
+  const base =
+    provider === "mock"
+      ? mockEmbeddingModel()
+      : providerFor(provider).textEmbeddingModel(model);
+
+  return {
+    specificationVersion: base.specificationVersion,
+    provider: base.provider,
+    modelId: base.modelId,
+    maxEmbeddingsPerCall: base.maxEmbeddingsPerCall,
+    supportsParallelCalls: base.supportsParallelCalls,
+    doEmbed: async (options) => {
+      const result = await base.doEmbed(options);
+      meter(owner, provider, model, { embedding: result.usage?.tokens });
+      return result;
+    },
+  };
+}
+
+let moderationClient: OpenAI | undefined;
+
+/**
+ * Client and model for the moderation endpoint, or null when the registry sets
+ * the moderation provider to "none" and only the local rules apply.
+ */
+export function moderationModel(): { client: OpenAI; model: string } | null {
+  const { provider, model } = roleConfig("moderation");
+  if (provider === NO_PROVIDER) return null;
+  if (!moderationClient) {
+    const config = loadRegistry().providers[provider];
+    moderationClient = config
+      ? new OpenAI({
+          baseURL: config.baseURL,
+          apiKey: config.apiKeyEnv ? process.env[config.apiKeyEnv] : "not-needed",
+        })
+      : new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return { client: moderationClient, model };
+}
@@ -0,0 +1,459 @@
+import { generateObject, type UIMessageStreamWriter } from "ai";
+import { z } from "zod";
+import {
+  agentTools,
+  agentToolsWithPolicy,
+  synthesizeFindings,
+  synthesizeComparison,
+  AllowedTools,
+  type AgentInput,
+  type AgentName,
+  type AgentTool,
+} from "@/tools";
+import { createPdfToken } from "@/lib/pdfToken";
+import { currentUsage } from "@/lib/usage";
+import {
+  renderFindings,
+  collectClauses,
+  collectCitations,
+} from "@/lib/findings";
+import { buildScorecard } from "@/lib/scorecard";
+import { assessConfidence } from "@/lib/confidence";
+import { modelSettings } from "@/lib/models";
+import { runDebateRound } from "@/lib/debate";
+import {
+  runWithPolicy,
+  describeFailure,
+  isAbortError,
+  timeLeft,
+  withinDeadline,
+  AGENT_POLICY,
+  SYNTHESIS_POLICY,
+  AGENT_RESERVE_MS,
+  SYNTHESIS_RESERVE_MS,
+} from "@/lib/resilience";
+import {
+  describeOptions,
+  dimensionWinners,
+  evaluateOptions,
+} from "@/lib/comparison";
+import type {
+  MoralMessage,
+  AgentData,
+  SynthesisData,
+  AgentRoster,
+  DebateData,
+  ComparisonCell,
+  ComparisonData,
+  ComparisonOption,
+  MissingAgent,
+  AgentFindings,
+  Language,
+  OrgProfile,
+} from "@/types/ai";
+
+export type ConversationFlow = {
+  agentOutputs: AgentData[];
+  synthesis: SynthesisData;
+  debate?: DebateData[];
+  comparison?: ComparisonData;
+};
+
+const AgentRosterSchema = z
+  .array(
+    z.object({
+      name: z.enum(AllowedTools),
+      required: z.boolean().default(false),
+    })
+  )
+  .min(1, "Select at least one agent.");
+
+/** Validate the optional `agents` field of a decision request. */
+export function parseAgentRoster(
+  raw: unknown
+): { valid: true; roster?: AgentRoster } | { valid: false; error: string } {
+  if (raw === undefined || raw === null) return { valid: true };
+
+  const parsed = AgentRosterSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      error: `Invalid agents: ${parsed.error.issues
+        .map((i) => i.message)
+        .join("; ")}`,
+    };
+  }
+
+  // Collapse duplicates; "required" wins over "optional"
+  const byName = new Map<AgentName, boolean>();
+  for (const { name, required } of parsed.data) {
+    byName.set(name, required || byName.get(name) === true);
+  }
+  return {
+    valid: true,
+    roster: AllowedTools.filter((a) => byName.has(a)).map((name) => ({
+      name,
+      required: byName.get(name) === true,
+    })),
+  };
+}
+
+/** Cache partition for a roster, so differently scoped runs never collide. */
+export function rosterScope(roster?: AgentRoster): string {
+  if (!roster) return "default";
+  const pick = (required: boolean) =>
+    roster
+      .filter((a) => a.required === required)
+      .map((a) => a.name)
+      .join(",");
+  return `required=${pick(true)};optional=${pick(false)}`;
+}
+
+/** Pick the relevant agents up front with a single classifier call. */
+export async function selectAgents(
+  decision: string,
+  candidates: readonly AgentName[] = AllowedTools,
+  abortSignal?: AbortSignal
+): Promise<AgentName[]> {
+  const roster = candidates.map(
+    (name) => `- ${name}: ${agentTools[name].description}`
+  ).join("\n");
+
+  const { object } = await generateObject({
+    ...modelSettings("router", { temperature: 0 }),
+    abortSignal,
+    schema: z.object({
+      agents: z.array(z.enum(candidates as [AgentName, ...AgentName[]])),
+    }),
+    messages: [
+      {
+        role: "system",
+        content: `
+You route business decisions to specialist agents.
+Select every agent whose expertise is materially relevant to the decision, and no others.
+
+Agents:
+${roster}
+        `.trim(),
+      },
+      { role: "user", content: `Decision: "${decision}"` },
+    ],
+  });
+
+  // Keep a stable order so identical decisions produce identical runs
+  return candidates.filter((a) => object.agents.includes(a));
+}
+
+/** The classifier is an optimization: if it fails, fall back to every candidate. */
+async function selectAgentsOrAll(
+  decision: string,
+  candidates: readonly AgentName[],
+  deadline?: number,
+  abortSignal?: AbortSignal
+): Promise<AgentName[]> {
+  try {
+    return await runWithPolicy(
+      (signal) => selectAgents(decision, candidates, signal),
+      withinDeadline(AGENT_POLICY, deadline, AGENT_RESERVE_MS),
+      abortSignal
+    );
+  } catch (err) {
+    if (isAbortError(err, abortSignal)) throw err;
+    console.error("agent classifier failed, running all candidates:", err);
+    return [...candidates];
+  }
+}
+
+async function resolveAgents(
+  decision: string,
+  roster?: AgentRoster,
+  deadline?: number,
+  abortSignal?: AbortSignal
+): Promise<AgentName[]> {
+  if (!roster) {
+    const selected = await selectAgentsOrAll(
+      decision,
+      AllowedTools,
+      deadline,
+      abortSignal
+    );
+    return selected.length ? selected : [...AllowedTools];
+  }
+
+  const required = roster.filter((a) => a.required).map((a) => a.name);
+  const optional = roster.filter((a) => !a.required).map((a) => a.name);
+  if (!optional.length) return required;
+
+  const relevant = await selectAgentsOrAll(
+    decision,
+    optional,
+    deadline,
+    abortSignal
+  );
+  if (!required.length && !relevant.length) return optional;
+  return AllowedTools.filter(
+    (a) => required.includes(a) || relevant.includes(a)
+  );
+}
+
+/** `agent` already applies its timeout/retry policy (see agentToolsWithPolicy). */
+async function runAgent(
+  agent: AgentTool,
+  name: AgentName,
+  input: AgentInput,
+  abortSignal?: AbortSignal
+): Promise<AgentFindings> {
+  const { execute } = agent;
+  if (!execute) throw new Error(`Agent "${name}" cannot be executed`);
+
+  return execute(
+    input,
+    { toolCallId: `${name}-fanout`, messages: [], abortSignal }
+  );
+}
+
+/**
+ * Deterministic orchestration: run the chosen agents concurrently, stream each
+ * card as it settles, optionally let the agents cross-examine each other, then
+ * always synthesize from the real agent outputs and attach a PDF log link.
+ * Failed or timed-out agents get an explicit card status and synthesis
+ * proceeds without them, naming the missing perspectives.
+ * With `options`, every agent scores each alternative and synthesis ranks them.
+ * With `jurisdictions`, jurisdictional agents break their risks down by them.
+ * With `profile`, every agent and synthesis judge the decision for that
+ * organization. With `language`, everything the user reads is written in it.
+ * With `deadline`, every stage is cut off in time for synthesis to finish by
+ * it, and debate is skipped if it no longer fits.
+ * Aborting `abortSignal` cancels every in-flight call and rejects the run.
+ */
+export async function runParallelAnalysis({
+  decision,
+  roster,
+  debate: withDebate = false,
+  options,
+  jurisdictions,
+  profile,
+  language,
+  writer,
+  deadline,
+  abortSignal,
+}: {
+  decision: string;
+  roster?: AgentRoster;
+  debate?: boolean;
+  options?: ComparisonOption[];
+  jurisdictions?: string[];
+  profile?: OrgProfile;
+  language?: Language;
+  writer: UIMessageStreamWriter<MoralMessage>;
+  deadline?: number; // epoch ms, see requestDeadline
+  abortSignal?: AbortSignal;
+}): Promise<ConversationFlow> {
+  // Agent selection reads the jurisdictions as plain context
+  const scoped = jurisdictions?.length
+    ? `${decision}\n\nJurisdictions: ${jurisdictions.join(", ")}`
+    : decision;
+  const selected = await resolveAgents(
+    options ? `${scoped}\n\nOptions:\n${describeOptions(options)}` : scoped,
+    roster,
+    deadline,
+    abortSignal
+  );
+
+  // Agents and debate stop in time to leave synthesis a full attempt
+  const agentPolicy = withinDeadline(
+    AGENT_POLICY,
+    deadline,
+    SYNTHESIS_RESERVE_MS
+  );
+  const tools = deadline ? agentToolsWithPolicy(agentPolicy) : agentTools;
+
+  const cells: ComparisonCell[] = [];
+  const writeComparison = (extra: Partial<ComparisonData> = {}) => {
+    if (!options) return undefined;
+    const comparison: ComparisonData = {
+      options,
+      cells: [...cells],
+      dimensionWinners: dimensionWinners(options, cells),
+      status: "running",
+      ...extra,
+    };
+    writer.write({ type: "data-comparison", id: "comparison", data: comparison });
+    return comparison;
+  };
+  writeComparison();
+
+  for (const name of selected) {
+    writer.write({
+      type: "data-agent",
+      id: name,
+      data: { tool: name, status: "running" },
+    });
+  }
+
+  const results = await Promise.allSettled(
+    selected.map(async (name) => {
+      let agentData: AgentData;
+      if (options) {
+        const evaluation = await runWithPolicy(
+          (signal) =>
+            evaluateOptions(
+              name,
+              decision,
+              options,
+              { jurisdictions, profile, language },
+              signal
+            ),
+          agentPolicy,
+          abortSignal
+        );
+        cells.push(...evaluation.cells);
+        writeComparison();
+        agentData = { tool: name, output: evaluation.output, status: "done" };
+      } else {
+        const findings = await runAgent(
+          tools[name],
+          name,
+          { decision, jurisdictions, profile, language },
+          abortSignal
+        );
+        agentData = {
+          tool: name,
+          output: renderFindings(findings),
+          findings,
+          status: "done",
+        };
+      }
+      writer.write({ type: "data-agent", id: name, data: agentData });
+      return agentData;
+    })
+  );
+
+  // A cancelled run must not be synthesized from whatever happened to finish
+  abortSignal?.throwIfAborted();
+
+  const agentOutputs: AgentData[] = [];
+  const missing: MissingAgent[] = [];
+  results.forEach((r, i) => {
+    if (r.status === "fulfilled") {
+      agentOutputs.push(r.value);
+      return;
+    }
+    console.error(`agent ${selected[i]} failed:`, r.reason);
+    const { status, error } = describeFailure(r.reason);
+    missing.push({ agent: selected[i], reason: error });
+    writer.write({
+      type: "data-agent",
+      id: selected[i],
+      data: { tool: selected[i], status, error },
+    });
+  });
+
+  const findings = agentOutputs.map((a) => ({
+    agent: a.tool as AgentName,
+    output: a.output ?? "",
+  }));
+
+  // Debate is optional, so it only runs if a full round still fits
+  const debateFits =
+    timeLeft(deadline, SYNTHESIS_RESERVE_MS) >= AGENT_POLICY.timeoutMs;
+  if (withDebate && !debateFits) {
+    console.warn("⏱️ DEBATE: skipped, not enough time left before synthesis");
+  }
+  const debate =
+    withDebate && debateFits
+      ? await runDebateRound({
+          decision,
+          findings,
+          language,
+          writer,
+          policy: agentPolicy,
+          abortSignal,
+        })
+      : [];
+
+  const synthesisPolicy = withinDeadline(SYNTHESIS_POLICY, deadline);
+
+  writer.write({
+    type: "data-agent",
+    id: "synthesis",
+    data: { tool: "synthesis", status: "running" },
+  });
+
+  let synthesis: SynthesisData;
+  let comparison: ComparisonData | undefined;
+  if (options) {
+    const { ranking, ...rest } = await runWithPolicy(
+      (signal) =>
+        synthesizeComparison(decision, options, cells, {
+          debate,
+          missing,
+          jurisdictions,
+          profile,
+          language,
+          abortSignal: signal,
+        }),
+      synthesisPolicy,
+      abortSignal
+    );
+    synthesis = {
+      ...rest,
+      ...assessConfidence({
+        agentOutputs,
+        missing,
+        comparison: { cells, ranking },
+      }),
+    };
+    comparison = writeComparison({ ranking, status: "done" });
+  } else {
+    synthesis = {
+      ...(await runWithPolicy(
+        (signal) =>
+          synthesizeFindings(decision, findings, {
+            debate,
+            missing,
+            jurisdictions,
+            profile,
+            language,
+            abortSignal: signal,
+          }),
+        synthesisPolicy,
+        abortSignal
+      )),
+      ...assessConfidence({ agentOutputs, missing }),
+    };
+  }
+
+  const scorecard = buildScorecard(agentOutputs);
+  if (scorecard) synthesis = { ...synthesis, scorecard };
+
+  writer.write({ type: "data-synthesis", id: "synthesis", data: synthesis });
+
+  const pdfLink: AgentData = {
+    tool: "generatePdfLog",
+    output: `/api/log-pdf/${createPdfToken({
+      decision,
+      jurisdictions,
+      language,
+      agentResults: Object.fromEntries(
+        agentOutputs.map((a) => [a.tool, a.output ?? ""])
+      ),
+      clauses: collectClauses(agentOutputs),
+      references: collectCitations(agentOutputs),
+      synthesis,
+      comparison,
+      scorecard,
+      usage: currentUsage()?.snapshot(),
+      timestamp: new Date().toISOString(),
+    })}`,
+    status: "done",
+  };
+  writer.write({ type: "data-agent", id: pdfLink.tool, data: pdfLink });
+
+  return {
+    agentOutputs: [...agentOutputs, pdfLink],
+    synthesis,
+    ...(debate.length ? { debate } : {}),
+    ...(comparison ? { comparison } : {}),
+  };
+}
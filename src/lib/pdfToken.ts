@@ -1,5 +1,14 @@
 import { createHmac, timingSafeEqual } from "crypto";
 import { deflateSync, inflateSync } from "zlib";
+import type {
+  Citation,
+  ComparisonData,
+  ConfidenceFactor,
+  Language,
+  PolicyClause,
+  RiskScorecard,
+  UsageData,
+} from "@/types/ai";
 
 const SECRET = process.env.PDF_TOKEN_SECRET || "dev-only-insecure-secret";
 
@@ -14,8 +23,20 @@ const fromB64url = (s: string) =>
 
 export type PdfPayload = {
   decision: string;
+  jurisdictions?: string[];
   agentResults?: Record<string, string>;
-  synthesis?: { summary?: string; agentsUsed?: string[]; confidence?: number };
+  clauses?: PolicyClause[];
+  references?: (Citation & { agent: string })[];
+  synthesis?: {
+    summary?: string;
+    agentsUsed?: string[];
+    confidence?: number;
+    confidenceFactors?: ConfidenceFactor[];
+  };
+  comparison?: ComparisonData;
+  scorecard?: RiskScorecard;
+  usage?: UsageData;
+  language?: Language;
   timestamp?: string;
   exp?: number; // seconds since epoch
 };
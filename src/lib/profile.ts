@@ -0,0 +1,153 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { redis } from "@/lib/rateLimit";
+import type { OrgProfile } from "@/types/ai";
+
+// ---- organization profile: who every analysis is for ----
+
+export const RiskAppetites = ["low", "moderate", "high"] as const;
+
+const text = (max: number) =>
+  z.string().trim().max(max, `Keep entries under ${max} characters.`);
+
+const OrgProfileSchema = z.object({
+  name: text(80).optional(),
+  industry: text(80).min(2, "Industry is required."),
+  size: text(60).min(1, "Size is required."),
+  regions: z
+    .array(text(40).min(2))
+    .max(10, "List at most 10 regions.")
+    .default([]),
+  values: z
+    .array(text(80).min(2))
+    .max(8, "List at most 8 values.")
+    .default([]),
+  riskAppetite: z.enum(RiskAppetites),
+  notes: text(500).optional(),
+}) satisfies z.ZodType<OrgProfile>;
+
+/** Validate a profile from the settings panel (or the store). */
+export function parseProfile(
+  raw: unknown
+): { valid: true; profile: OrgProfile } | { valid: false; error: string } {
+  const parsed = OrgProfileSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      error: `Invalid profile: ${parsed.error.issues
+        .map((i) => `${i.path.join(".") || "profile"}: ${i.message}`)
+        .join("; ")}`,
+    };
+  }
+  // Blank optional fields are the same as leaving them out
+  const { name, notes, ...rest } = parsed.data;
+  return {
+    valid: true,
+    profile: {
+      ...(name ? { name } : {}),
+      ...rest,
+      ...(notes ? { notes } : {}),
+    },
+  };
+}
+
+// ---- storage: Redis when configured, else a local JSON file (dev) ----
+
+const KEY = "org-profile";
+const profileFile = () =>
+  path.resolve(
+    process.cwd(),
+    process.env.PROFILE_FILE || ".data/org-profile.json"
+  );
+
+/** The saved profile, or null if none is set (or it no longer validates). */
+export async function loadProfile(): Promise<OrgProfile | null> {
+  let raw: unknown = null;
+  if (redis) {
+    raw = await redis.get(KEY);
+  } else if (fs.existsSync(profileFile())) {
+    raw = JSON.parse(await fs.promises.readFile(profileFile(), "utf8"));
+  }
+  if (raw === null || raw === undefined) return null;
+
+  const parsed = parseProfile(raw);
+  if (!parsed.valid) {
+    console.warn(`⚠️ PROFILE: ignoring stored profile. ${parsed.error}`);
+    return null;
+  }
+  return parsed.profile;
+}
+
+export async function saveProfile(profile: OrgProfile): Promise<void> {
+  if (redis) {
+    await redis.set(KEY, profile);
+    return;
+  }
+  await fs.promises.mkdir(path.dirname(profileFile()), { recursive: true });
+  await fs.promises.writeFile(
+    profileFile(),
+    JSON.stringify(profile, null, 2)
+  );
+}
+
+export async function deleteProfile(): Promise<void> {
+  if (redis) {
+    await redis.del(KEY);
+    return;
+  }
+  await fs.promises.rm(profileFile(), { force: true });
+}
+
+// ---- access: only admins change the profile every analysis uses ----
+
+const digest = (s: string) => createHash("sha256").update(s).digest();
+
+/**
+ * Whether the request carries PROFILE_ADMIN_TOKEN, as `X-Admin-Token` or a
+ * bearer token. Without the variable, editing is open in development only.
+ */
+export function isProfileAdmin(req: Request): boolean {
+  const expected = process.env.PROFILE_ADMIN_TOKEN;
+  if (!expected) return process.env.NODE_ENV !== "production";
+  const given =
+    req.headers.get("x-admin-token") ??
+    req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ??
+    "";
+  // Compare digests: equal lengths, and no timing hint about the token
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+// ---- prompts and caching ----
+
+/**
+ * Cache partition, so an analysis for one profile is never replayed for
+ * another. Hashes the canonical JSON, so any edit starts a fresh partition.
+ */
+export function profileScope(profile?: OrgProfile | null): string {
+  if (!profile) return "";
+  const canonical = JSON.stringify(profile, Object.keys(profile).sort());
+  return `profile=${createHash("sha256")
+    .update(canonical)
+    .digest("hex")
+    .slice(0, 12)}`;
+}
+
+/** The profile as a prompt block for agents and synthesis. */
+export function describeProfile(profile: OrgProfile): string {
+  const lines = [
+    ...(profile.name ? [`Organization: ${profile.name}`] : []),
+    `Industry: ${profile.industry}`,
+    `Size: ${profile.size}`,
+    ...(profile.regions.length
+      ? [`Operates in: ${profile.regions.join(", ")}`]
+      : []),
+    ...(profile.values.length ? [`Values: ${profile.values.join("; ")}`] : []),
+    `Risk appetite: ${profile.riskAppetite}`,
+    ...(profile.notes ? [`Notes: ${profile.notes}`] : []),
+  ];
+  return `--- organization profile ---
+${lines.join("\n")}
+--- end organization profile ---`;
+}
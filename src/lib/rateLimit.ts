@@ -1,8 +1,11 @@
 import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
+import { isMockMode } from "@/lib/mock";
 
 // ---- create Redis client from either UPSTASH_* or KV_* envs ----
 function makeRedis() {
+  // MOCK_MODE stays offline and uses the in-memory limiter below
+  if (isMockMode()) return null;
   const url =
     process.env.UPSTASH_REDIS_REST_URL ?? process.env.KV_REST_API_URL ?? "";
   const token =
@@ -11,7 +14,8 @@ function makeRedis() {
   return new Redis({ url, token });
 }
 
-const redis = makeRedis();
+// Also stores the organization profile (see lib/profile.ts)
+export const redis = makeRedis();
 
 // ---- tiny in-memory fallback for local dev if envs missing ----
 type LimitResult = {
@@ -88,6 +92,17 @@ export const limitChat = createLimiter(3, "10 m", "chat"); // 3 / 10min per clie
 export const limitChatDaily = createLimiter(5, "1 d", "chat-daily"); // 5 / day per client
 export const limitPdf = createLimiter(1, "1 m", "pdf"); // 1 / 1min per client
 export const limitPdfDaily = createLimiter(2, "1 d", "pdf-daily"); // 2 / day per client
+export const limitFollowUp = createLimiter(10, "10 m", "followup"); // 10 / 10min per client
+export const limitFollowUpDaily = createLimiter(30, "1 d", "followup-daily"); // 30 / day per client
+export const limitProfile = createLimiter(5, "10 m", "profile"); // 5 / 10min per client
+export const limitProfileDaily = createLimiter(20, "1 d", "profile-daily"); // 20 / day per client
+
+const limiters = {
+  chat: [limitChat, limitChatDaily],
+  pdf: [limitPdf, limitPdfDaily],
+  followUp: [limitFollowUp, limitFollowUpDaily],
+  profile: [limitProfile, limitProfileDaily],
+} as const;
 
 type RequestWithIp = Request & { ip?: string | null };
 
@@ -129,11 +144,12 @@ export interface MultiLimitResult {
 /** Check multiple rate limits and return the most restrictive */
 export async function checkMultipleLimits(
   clientId: string,
-  type: "chat" | "pdf"
+  type: keyof typeof limiters
 ): Promise<MultiLimitResult> {
+  const [shortTermLimiter, dailyLimiter] = limiters[type];
   const [shortTerm, daily] = await Promise.all([
-    type === "chat" ? limitChat(clientId) : limitPdf(clientId),
-    type === "chat" ? limitChatDaily(clientId) : limitPdfDaily(clientId),
+    shortTermLimiter(clientId),
+    dailyLimiter(clientId),
   ]);
 
   // Both must succeed for overall success
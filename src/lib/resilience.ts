@@ -0,0 +1,154 @@
+// ---- per-agent timeouts and bounded retries with backoff ----
+
+export class AgentTimeoutError extends Error {
+  constructor(
+    readonly timeoutMs: number,
+    message = `Timed out after ${Math.round(timeoutMs / 1000)}s`
+  ) {
+    super(message);
+    this.name = "AgentTimeoutError";
+  }
+}
+
+export type RetryPolicy = {
+  timeoutMs: number; // per attempt
+  retries: number; // extra attempts after the first
+  backoffMs: number; // base delay, doubled each retry
+  deadline?: number; // epoch ms no attempt may run past (see withinDeadline)
+};
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value !== undefined && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+export const AGENT_POLICY: RetryPolicy = {
+  timeoutMs: envNumber(process.env.AGENT_TIMEOUT_MS, 15_000),
+  retries: envNumber(process.env.AGENT_MAX_RETRIES, 1),
+  backoffMs: 500,
+};
+
+export const SYNTHESIS_POLICY: RetryPolicy = {
+  timeoutMs: envNumber(process.env.SYNTHESIS_TIMEOUT_MS, 20_000),
+  retries: 1,
+  backoffMs: 500,
+};
+
+// One deadline covers every stage of a decision request: the route's 60s
+// maxDuration, less a margin for the PDF link, cache write and usage.
+export const REQUEST_BUDGET_MS = 55_000;
+
+// Earlier stages keep this much back, so the agents and synthesis each get
+// at least one full attempt. Retries only run in time left over.
+export const SYNTHESIS_RESERVE_MS = SYNTHESIS_POLICY.timeoutMs;
+export const AGENT_RESERVE_MS = AGENT_POLICY.timeoutMs + SYNTHESIS_RESERVE_MS;
+
+/** When a request that starts now must be done. */
+export function requestDeadline(): number {
+  return Date.now() + REQUEST_BUDGET_MS;
+}
+
+/** Milliseconds left before `deadline`, less `reserveMs` for later stages. */
+export function timeLeft(deadline?: number, reserveMs = 0): number {
+  return deadline === undefined ? Infinity : deadline - reserveMs - Date.now();
+}
+
+/** `policy`, cut off `reserveMs` before `deadline` (unchanged without one). */
+export function withinDeadline(
+  policy: RetryPolicy,
+  deadline?: number,
+  reserveMs = 0
+): RetryPolicy {
+  return deadline === undefined
+    ? policy
+    : { ...policy, deadline: deadline - reserveMs };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Run `task` with its own abort signal, aborted when `timeoutMs` elapses or `parent` aborts. */
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => PromiseLike<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> {
+  parent?.throwIfAborted();
+
+  const controller = new AbortController();
+  // Settle as soon as the client goes away, even if the task ignores its signal
+  let onAbort = () => {};
+  const cancelled = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      controller.abort(parent?.reason);
+      reject(parent?.reason);
+    };
+  });
+  parent?.addEventListener("abort", onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new AgentTimeoutError(timeoutMs);
+      controller.abort(err);
+      reject(err);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), timeout, cancelled]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Timeout each attempt and retry failures with jittered exponential backoff.
+ * With a deadline, attempts are cut short at it, and a retry only runs if a
+ * full attempt still fits before it.
+ */
+export async function runWithPolicy<T>(
+  task: (signal: AbortSignal) => PromiseLike<T>,
+  policy: RetryPolicy = AGENT_POLICY,
+  parent?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const left = timeLeft(policy.deadline);
+    if (left <= 0) {
+      throw new AgentTimeoutError(0, "No time left in this request");
+    }
+    try {
+      return await withTimeout(task, Math.min(policy.timeoutMs, left), parent);
+    } catch (err) {
+      if (attempt >= policy.retries || parent?.aborted) throw err;
+      const delay = policy.backoffMs * 2 ** attempt * (0.5 + Math.random() / 2);
+      if (delay + policy.timeoutMs > timeLeft(policy.deadline)) throw err;
+      console.warn(
+        `↻ RETRY: attempt ${attempt + 2}/${policy.retries + 1} in ${Math.round(
+          delay
+        )}ms after: ${err instanceof Error ? err.message : String(err)}`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/** True when `err` comes from the client cancelling the request. */
+export function isAbortError(err: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  return err instanceof Error && err.name === "AbortError";
+}
+
+/** Map a failure to the status and human-readable reason shown on the card. */
+export function describeFailure(err: unknown): {
+  status: "error" | "timeout";
+  error: string;
+} {
+  if (err instanceof AgentTimeoutError) {
+    return { status: "timeout", error: err.message };
+  }
+  return {
+    status: "error",
+    error: err instanceof Error ? err.message : "Unknown error",
+  };
+}
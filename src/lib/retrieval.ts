@@ -0,0 +1,83 @@
+import { embed } from "ai";
+import { embeddingModel } from "@/lib/models";
+import { vectorIndex } from "@/lib/vectorStore";
+import { jurisdictionTags } from "@/lib/jurisdictions";
+
+type DocMetadata = {
+  text: string;
+  url?: string;
+  doc_id?: string;
+  title?: string;
+  publisher?: string;
+  heading?: string; // first line of the section the chunk came from
+  page?: number; // PDF page the chunk starts on
+  domain?: string;
+  jurisdiction?: string;
+  jurisdictions?: string[]; // tags split from `jurisdiction` at ingestion
+};
+
+export type Evidence = Awaited<ReturnType<typeof retrieveEvidence>>[number];
+
+export async function retrieveEvidence(
+  query: string,
+  {
+    topK = 5,
+    domain,
+    jurisdictions,
+    agent = "retrieval",
+    abortSignal,
+  }: {
+    topK?: number;
+    // Only passages ingested under this domain, e.g. "aiRisk"
+    domain?: string;
+    // Prefer passages tagged for these jurisdictions (or "Global")
+    jurisdictions?: string[];
+    agent?: string;
+    abortSignal?: AbortSignal;
+  } = {}
+) {
+  const { embedding } = await embed({
+    // Attributed to the calling agent in usage accounting
+    model: embeddingModel(agent),
+    value: query,
+    abortSignal,
+  });
+  // The store clients take no signal, so stop before querying instead
+  abortSignal?.throwIfAborted();
+
+  const index = vectorIndex("__default__");
+  const search = (filter: Record<string, unknown>) =>
+    index.query({
+      vector: embedding,
+      topK,
+      includeMetadata: true,
+      ...(Object.keys(filter).length ? { filter } : {}),
+    });
+
+  const base = domain ? { domain } : {};
+  let res = jurisdictions?.length
+    ? await search({
+        ...base,
+        jurisdictions: { $in: jurisdictionTags(jurisdictions) },
+      })
+    : await search(base);
+  // Passages ingested before jurisdiction tagging have none; use them rather than nothing
+  if (jurisdictions?.length && !res.matches?.length) {
+    res = await search(base);
+  }
+
+  return (res.matches ?? []).map((m, i) => {
+    const md = (m.metadata ?? {}) as Partial<DocMetadata>;
+    return {
+      id: `[#${i + 1}]`,
+      text: md.text as string,
+      source: md.url || md.doc_id,
+      ...(md.title ? { title: md.title } : {}),
+      ...(md.publisher ? { publisher: md.publisher } : {}),
+      ...(md.heading ? { heading: md.heading } : {}),
+      ...(typeof md.page === "number" ? { page: md.page } : {}),
+      ...(md.url ? { url: md.url } : {}),
+      ...(md.jurisdiction ? { jurisdiction: md.jurisdiction } : {}),
+    };
+  });
+}
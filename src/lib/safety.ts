@@ -1,50 +1,155 @@
-import OpenAI from "openai";
 import type { UIMessage } from "ai";
-
-// Create client (safe at module scope in serverless)
-const oa = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import type OpenAI from "openai";
+import { moderationModel } from "@/lib/models";
+import { isMockMode, mockModerate } from "@/lib/mock";
+import { detectLanguage } from "@/lib/language";
+import type { Language } from "@/types/ai";
 
 // Input validation limits
 const INPUT_LIMITS = {
   MAX_PAYLOAD_SIZE: 20 * 1024, // 20KB (single prompt + metadata)
   MAX_MESSAGE_COUNT: 3,
   MAX_TEXT_LENGTH: 1500,
+  MAX_CLARIFICATION_LENGTH: 800, // extra room for answers to clarifying questions
+  // Follow-ups replay the original analysis, so they get their own budget
+  MAX_FOLLOW_UP_PAYLOAD_SIZE: 64 * 1024, // 64KB (decision + agent outputs + thread)
+  MAX_FOLLOW_UPS: 5, // questions per analysis
+  MAX_FOLLOW_UP_LENGTH: 500,
 } as const;
 
-/** Very light PII redaction to reduce accidental leakage. */
-export function redactPII(text: string): string {
+type PiiPattern = { pattern: RegExp; label: string };
+
+// Identifiers and phone formats specific to each locale. They run before the
+// generic phone and card patterns, which would otherwise take their digits.
+const PII_BY_LANGUAGE: Record<Language, PiiPattern[]> = {
+  en: [
+    // US Social Security numbers
+    { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, label: "id" },
+    // UK National Insurance numbers
+    {
+      pattern: /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+      label: "id",
+    },
+  ],
+  de: [
+    // Sozialversicherungsnummer, e.g. 12 150785 M 123
+    { pattern: /\b\d{2} ?\d{6} ?[A-Z] ?\d{3}\b/g, label: "id" },
+    // Steuer-ID, only when labelled (11 bare digits are too common)
+    {
+      pattern: /\b(?:Steuer-?ID|Steueridentifikationsnummer|IdNr\.?)[:\s]*\d[\d ]{9,13}\d/gi,
+      label: "id",
+    },
+    // +49 (0)30 1234567, 030/1234567, 0171-1234567
+    {
+      pattern: /(?:\+49[\s-]?(?:\(0\)[\s-]?)?|\b0)\d{2,5}[\s/-]?\d{3,8}\b/g,
+      label: "phone",
+    },
+  ],
+  fr: [
+    // Numéro de sécurité sociale (NIR), with or without its key
+    {
+      pattern:
+        /\b[12][\s.]?\d{2}[\s.]?\d{2}[\s.]?(?:\d{2}|2[AB])[\s.]?\d{3}[\s.]?\d{3}(?:[\s.]?\d{2})?\b/g,
+      label: "id",
+    },
+    // +33 6 12 34 56 78, 06.12.34.56.78
+    {
+      pattern: /(?:\+33[\s.-]?|\b0)[1-9](?:[\s.-]?\d{2}){4}\b/g,
+      label: "phone",
+    },
+  ],
+  es: [
+    // DNI and NIE
+    { pattern: /\b[XYZ]?\d{7,8}[-\s]?[A-Z]\b/g, label: "id" },
+    // +34 612 345 678
+    {
+      pattern: /(?:\+34[\s-]?)?\b[6-9]\d{2}[\s-]?\d{3}[\s-]?\d{3}\b/g,
+      label: "phone",
+    },
+  ],
+  it: [
+    // Codice fiscale
+    {
+      pattern: /\b[A-Z]{6}\d{2}[A-EHLMPR-T]\d{2}[A-Z]\d{3}[A-Z]\b/gi,
+      label: "id",
+    },
+    // +39 312 3456789
+    {
+      pattern: /(?:\+39[\s-]?)?\b3\d{2}[\s-]?\d{6,7}\b/g,
+      label: "phone",
+    },
+  ],
+};
+
+/**
+ * Very light PII redaction to reduce accidental leakage. Emails, IBANs,
+ * phone numbers and cards are redacted in any language; national ID and
+ * phone formats follow `language` (detected from the text by default).
+ */
+export function redactPII(
+  text: string,
+  language: Language = detectLanguage(text)
+): string {
   if (!text) return text;
-  return (
-    text
-      // Emails
-      .replace(
-        /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
-        "[redacted-email]"
-      )
-      // US/EU-ish phone numbers
-      .replace(
+  const patterns: PiiPattern[] = [
+    // Emails, including non-ASCII addresses
+    {
+      pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}.-]+\.\p{L}{2,}/gu,
+      label: "email",
+    },
+    // IBANs, e.g. DE89 3704 0044 0532 0130 00
+    {
+      pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+      label: "iban",
+    },
+    ...PII_BY_LANGUAGE[language],
+    // US/EU-ish phone numbers
+    {
+      pattern:
         /(?:\+?\d{1,3}[\s-]?)?(?:\(?\d{2,4}\)?[\s-]?)?\d{3,4}[\s-]?\d{3,4}\b/g,
-        "[redacted-phone]"
-      )
-      // Credit cards (very rough)
-      .replace(/\b(?:\d[ -]*?){13,19}\b/g, "[redacted-card]")
+      label: "phone",
+    },
+    // Credit cards (very rough)
+    { pattern: /\b(?:\d[ -]*?){13,19}\b/g, label: "card" },
+  ];
+  return patterns.reduce(
+    (t, { pattern, label }) => t.replace(pattern, `[redacted-${label}]`),
+    text
   );
 }
 
 export type ModerationCategories = Record<string, boolean>;
 
-/** Run OpenAI moderation on text. Returns { allowed, categories }. */
+/**
+ * Run moderation on text. Returns { allowed, categories }. Without a
+ * moderation endpoint (provider "none"), or when the endpoint fails, the
+ * keyword rules from mock mode decide instead.
+ */
 export async function moderateText(
   text: string
 ): Promise<{ allowed: boolean; categories?: ModerationCategories }> {
   // Empty/short text: allow
   if (!text || !text.trim()) return { allowed: true };
+  if (isMockMode()) return mockModerate(text);
 
-  // "omni-moderation-latest" is the general moderation model
-  const res = await oa.moderations.create({
-    model: "omni-moderation-latest",
-    input: text.slice(0, 20_000), // keep costs bounded
-  });
+  // Defaults to "omni-moderation-latest", the general moderation model
+  const moderation = moderationModel();
+  if (!moderation) return mockModerate(text);
+
+  let res: Awaited<ReturnType<OpenAI["moderations"]["create"]>>;
+  try {
+    res = await moderation.client.moderations.create({
+      model: moderation.model,
+      input: text.slice(0, 20_000), // keep costs bounded
+    });
+  } catch (err) {
+    console.warn(
+      `⚠️ MODERATION: ${moderation.model} failed, using local rules: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+    return mockModerate(text);
+  }
 
   const result = res.results?.[0];
   const flagged = result?.flagged ?? false;
@@ -106,41 +211,160 @@ export interface InjectionResult {
   sanitizedText?: string;
 }
 
+type InjectionPattern = {
+  pattern: RegExp;
+  name: string;
+  risk: "medium" | "high";
+};
+
 // Common prompt injection patterns for basic detection
-const INJECTION_PATTERNS = [
+const INJECTION_PATTERNS: InjectionPattern[] = [
   {
     pattern: /ignore\s+(?:all\s+)?previous\s+instructions/i,
     name: "ignore_instructions",
-    risk: "high" as const,
+    risk: "high",
   },
   {
     pattern:
       /(?:act|behave|respond)\s+as\s+(?:a\s+different|an?)\s+(?:ai|assistant|character|person)/i,
     name: "role_confusion",
-    risk: "high" as const,
+    risk: "high",
   },
   {
     pattern: /(?:system|user|assistant)\s*:\s*/i,
     name: "role_injection",
-    risk: "medium" as const,
+    risk: "medium",
   },
   {
     pattern: /\[(?:INST|\/INST)\]|\{\{.*?\}\}/i,
     name: "template_injection",
-    risk: "medium" as const,
+    risk: "medium",
   },
   {
     pattern:
       /(?:override|bypass|disable|turn\s+off)\s+(?:safety|security|filter|guard)/i,
     name: "safety_bypass",
-    risk: "high" as const,
+    risk: "high",
   },
-] as const;
+];
+
+// The same attacks in the other supported languages, informal and formal
+// address. High-risk phrasings are checked whatever the detected language,
+// since detection is unreliable on short or mixed text. Role markers only
+// apply for a detected or requested language, so ordinary words in one
+// language (e.g. Spanish "sistema") don't trip another's checks.
+const LOCALIZED_INJECTION_PATTERNS: Record<
+  Exclude<Language, "en">,
+  InjectionPattern[]
+> = {
+  de: [
+    {
+      pattern:
+        /(?:ignorier\w*(?:\s+sie)?|vergiss|vergessen\s+sie)\s+(?:alle\s+)?(?:vorherigen|bisherigen|obigen)\s+(?:anweisungen|instruktionen|regeln)/iu,
+      name: "ignore_instructions",
+      risk: "high",
+    },
+    {
+      pattern:
+        /(?:verhalte\s+dich|verhalten\s+sie\s+sich|tu\s+so|tun\s+sie\s+so|antworte(?:n\s+sie)?)\s+(?:wie|als)\s+(?:ein(?:e|en)?\s+)?(?:andere[rn]?\s+)?(?:ki|assistent(?:in)?|person|figur|charakter)/iu,
+      name: "role_confusion",
+      risk: "high",
+    },
+    {
+      pattern: /^[ \t]*(?:benutzer|nutzer|assistent)\b[ \t]*:[ \t]*/imu,
+      name: "role_injection",
+      risk: "medium",
+    },
+    {
+      pattern:
+        /(?:umgeh\w*|deaktivier\w*|schalte\w*)(?:\s+sie)?\s+(?:die\s+|den\s+)?(?:sicherheit\w*|filter|schutz\w*)/iu,
+      name: "safety_bypass",
+      risk: "high",
+    },
+  ],
+  fr: [
+    {
+      pattern:
+        /(?:ignore[rz]?|oublie[rz]?)\s+(?:toutes\s+)?(?:les\s+)?instructions\s+(?:précédentes|antérieures|ci-dessus)/iu,
+      name: "ignore_instructions",
+      risk: "high",
+    },
+    {
+      pattern:
+        /(?:agis|agissez|comporte-toi|comportez-vous|réponds|répondez)\s+(?:comme|en\s+tant\s+que)\s+(?:une?\s+)?(?:autre\s+)?(?:ia|assistant|personnage|personne)/iu,
+      name: "role_confusion",
+      risk: "high",
+    },
+    {
+      pattern: /^[ \t]*(?:système|utilisateur)\b[ \t]*:[ \t]*/imu,
+      name: "role_injection",
+      risk: "medium",
+    },
+    {
+      pattern:
+        /(?:contourne[rz]?|désactive[rz]?)\s+(?:les?\s+|la\s+)?(?:sécurité|filtres?|protections?|garde-fous)/iu,
+      name: "safety_bypass",
+      risk: "high",
+    },
+  ],
+  es: [
+    {
+      pattern:
+        /(?:ignora|ignore|olvida|olvide)(?:\s+usted)?\s+(?:todas\s+)?(?:las\s+)?instrucciones\s+(?:anteriores|previas)/iu,
+      name: "ignore_instructions",
+      risk: "high",
+    },
+    {
+      pattern:
+        /(?:actúa|actua|actúe|actue|compórtate|compórtese|responde|responda)(?:\s+usted)?\s+como\s+(?:una?\s+)?(?:otr[oa]\s+)?(?:ia|asistente|personaje|persona)/iu,
+      name: "role_confusion",
+      risk: "high",
+    },
+    {
+      pattern: /^[ \t]*(?:sistema|usuario|asistente)\b[ \t]*:[ \t]*/imu,
+      name: "role_injection",
+      risk: "medium",
+    },
+    {
+      pattern:
+        /(?:evita|evite|desactiva|desactive|omite|omita|salta|salte)(?:\s+usted)?\s+(?:la\s+|los\s+|el\s+)?(?:seguridad|filtros?|protecci[oó]n)/iu,
+      name: "safety_bypass",
+      risk: "high",
+    },
+  ],
+  it: [
+    {
+      pattern:
+        /(?:ignora|ignori|dimentica|dimentichi)(?:\s+lei)?\s+(?:tutte\s+)?(?:le\s+)?istruzioni\s+(?:precedenti|sopra)/iu,
+      name: "ignore_instructions",
+      risk: "high",
+    },
+    {
+      pattern:
+        /(?:comportati|si\s+comporti|agisci|agisca|rispondi|risponda)(?:\s+lei)?\s+come\s+(?:un[ao]?\s+)?(?:altr[oa]\s+)?(?:ia|assistente|personaggio|persona)/iu,
+      name: "role_confusion",
+      risk: "high",
+    },
+    {
+      pattern: /^[ \t]*(?:sistema|utente|assistente)\b[ \t]*:[ \t]*/imu,
+      name: "role_injection",
+      risk: "medium",
+    },
+    {
+      pattern:
+        /(?:aggira|aggiri|disattiva|disattivi)(?:\s+lei)?\s+(?:la\s+|i\s+|il\s+)?(?:sicurezza|filtri?|protezion[ei])/iu,
+      name: "safety_bypass",
+      risk: "high",
+    },
+  ],
+};
 
 /** Validate request input size and structure for app limits */
 export function validateInput(
   request: Request,
-  messages: UIMessage[]
+  messages: UIMessage[],
+  // Rendered answers to clarifying questions (see describeClarifications)
+  options: { clarification?: string } = {}
 ): ValidationResult {
   const details: ValidationResult["details"] = {};
 
@@ -186,11 +410,91 @@ export function validateInput(
     })
     .join(" ");
 
+  // Answers earn extra room only if they really end the decision text
+  const { clarification } = options;
+  const maxTextLength =
+    INPUT_LIMITS.MAX_TEXT_LENGTH +
+    (clarification && totalText.trimEnd().endsWith(clarification)
+      ? Math.min(clarification.length, INPUT_LIMITS.MAX_CLARIFICATION_LENGTH)
+      : 0);
   details.textLength = totalText.length;
-  if (totalText.length > INPUT_LIMITS.MAX_TEXT_LENGTH) {
+  if (totalText.length > maxTextLength) {
+    return {
+      valid: false,
+      error: `Text too long. Maximum ${maxTextLength} characters allowed, got ${totalText.length}.`,
+      details,
+    };
+  }
+
+  return { valid: true, details };
+}
+
+/** Validate a follow-up request, which carries the full prior conversation */
+export function validateFollowUpInput(
+  request: Request,
+  messages: UIMessage[]
+): ValidationResult {
+  const details: ValidationResult["details"] = {};
+
+  const contentLength = request.headers.get("content-length");
+  if (contentLength) {
+    const payloadSize = parseInt(contentLength, 10);
+    details.payloadSize = payloadSize;
+
+    if (payloadSize > INPUT_LIMITS.MAX_FOLLOW_UP_PAYLOAD_SIZE) {
+      return {
+        valid: false,
+        error: `Request too large. Maximum ${
+          INPUT_LIMITS.MAX_FOLLOW_UP_PAYLOAD_SIZE / 1024
+        }KB allowed, got ${Math.round(payloadSize / 1024)}KB.`,
+        details,
+      };
+    }
+  }
+
+  // One decision, one analysis, then question/answer pairs
+  const maxMessages = 2 + INPUT_LIMITS.MAX_FOLLOW_UPS * 2;
+  details.messageCount = messages.length;
+  if (messages.length > maxMessages) {
+    return {
+      valid: false,
+      error: `Too many messages. Maximum ${maxMessages} allowed, got ${messages.length}.`,
+      details,
+    };
+  }
+
+  const userTexts = messages
+    .filter((m) => m.role === "user")
+    .map((m) => extractUserText([m]));
+  if (userTexts.length < 2) {
+    return {
+      valid: false,
+      error: "A follow-up needs an original decision and a question.",
+      details,
+    };
+  }
+  if (userTexts.length - 1 > INPUT_LIMITS.MAX_FOLLOW_UPS) {
+    return {
+      valid: false,
+      error: `Too many follow-up questions. Maximum ${INPUT_LIMITS.MAX_FOLLOW_UPS} allowed per analysis.`,
+      details,
+    };
+  }
+
+  const decision = userTexts[0];
+  const question = userTexts[userTexts.length - 1];
+  details.textLength = question.length;
+  if (decision.length > INPUT_LIMITS.MAX_TEXT_LENGTH) {
+    return {
+      valid: false,
+      error: `Decision too long. Maximum ${INPUT_LIMITS.MAX_TEXT_LENGTH} characters allowed, got ${decision.length}.`,
+      details,
+    };
+  }
+  if (!question || question.length > INPUT_LIMITS.MAX_FOLLOW_UP_LENGTH) {
     return {
       valid: false,
-      error: `Text too long. Maximum ${INPUT_LIMITS.MAX_TEXT_LENGTH} characters allowed, got ${totalText.length}.`,
+      error: `Follow-up must be 1-${INPUT_LIMITS.MAX_FOLLOW_UP_LENGTH} characters, got ${question.length}.`,
       details,
     };
   }
@@ -198,8 +502,16 @@ export function validateInput(
   return { valid: true, details };
 }
 
-/** Detect basic prompt injection patterns */
-export function detectPromptInjection(text: string): InjectionResult {
+/**
+ * Detect basic prompt injection patterns. English and every language's
+ * high-risk patterns always apply; another language's role markers apply
+ * when it is detected in `text` or listed in `languages` (e.g. the language
+ * the request asked for).
+ */
+export function detectPromptInjection(
+  text: string,
+  languages: Language[] = []
+): InjectionResult {
   if (!text?.trim()) {
     return { detected: false, riskLevel: "low" };
   }
@@ -208,9 +520,16 @@ export function detectPromptInjection(text: string): InjectionResult {
   let highestRisk: "low" | "medium" | "high" = "low";
   let sanitizedText = text;
 
-  for (const { pattern, name, risk } of INJECTION_PATTERNS) {
+  const active = new Set([...languages, detectLanguage(text)]);
+  const patterns = [
+    ...INJECTION_PATTERNS,
+    ...Object.entries(LOCALIZED_INJECTION_PATTERNS).flatMap(([lang, list]) =>
+      list.filter((p) => p.risk === "high" || active.has(lang as Language))
+    ),
+  ];
+  for (const { pattern, name, risk } of patterns) {
     if (pattern.test(text)) {
-      detectedPatterns.push(name);
+      if (!detectedPatterns.includes(name)) detectedPatterns.push(name);
 
       // Update highest risk level
       if (risk === "high" || (risk === "medium" && highestRisk === "low")) {
@@ -0,0 +1,47 @@
+import { RiskDimensions, type AgentName } from "@/lib/agents";
+import type { AgentData, RiskScorecard } from "@/types/ai";
+
+// RISK_WEIGHTS="law:2,aiRisk:1.5" — unlisted dimensions weigh 1
+function loadWeights(): Partial<Record<string, number>> {
+  const weights: Partial<Record<string, number>> = {};
+  for (const entry of (process.env.RISK_WEIGHTS ?? "").split(",")) {
+    const [agent, value] = entry.split(":").map((s) => s.trim());
+    const n = Number(value);
+    if (agent && Number.isFinite(n) && n >= 0) weights[agent] = n;
+  }
+  return weights;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Collect each agent's 0-10 risk score into a scorecard with a weighted
+ * overall index. Returns undefined when no agent produced a score.
+ */
+export function buildScorecard(
+  agentOutputs: AgentData[]
+): RiskScorecard | undefined {
+  const weights = loadWeights();
+  const dimensions = agentOutputs
+    .filter(
+      (a) =>
+        typeof a.findings?.riskScore === "number" && a.tool in RiskDimensions
+    )
+    .map((a) => ({
+      agent: a.tool,
+      label: RiskDimensions[a.tool as AgentName],
+      score: round1(Math.min(10, Math.max(0, a.findings!.riskScore))),
+      weight: weights[a.tool] ?? 1,
+    }));
+  if (!dimensions.length) return undefined;
+
+  const totalWeight = dimensions.reduce((n, d) => n + d.weight, 0);
+  const overall = totalWeight
+    ? dimensions.reduce((n, d) => n + d.score * d.weight, 0) / totalWeight
+    : 0;
+  const dominant = dimensions.reduce((best, d) =>
+    d.score * d.weight > best.score * best.weight ? d : best
+  );
+
+  return { dimensions, overall: round1(overall), dominant: dominant.agent };
+}
@@ -1,29 +1,34 @@
 import { embed } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { Pinecone } from "@pinecone-database/pinecone";
+import { embeddingModel } from "@/lib/models";
+import { vectorIndex } from "@/lib/vectorStore";
 import crypto from "crypto";
 
-const pc = new Pinecone({ apiKey: process.env.PINECONE_API_KEY! });
-const cacheIndex = pc
-  .index(process.env.PINECONE_INDEX || "moral-compass-ai")
-  .namespace("cache");
+const cacheIndex = () => vectorIndex("cache");
 
 
 export class SemanticCache {
   private similarityThreshold = 0.85; // Cosine similarity threshold
 
-  async get(input: string): Promise<unknown | null> {
+  /** `scope` partitions the cache (e.g. per agent roster); only same-scope entries match. */
+  async get(
+    input: string,
+    scope = "default",
+    abortSignal?: AbortSignal
+  ): Promise<unknown | null> {
     // Generate embedding for input
     const { embedding } = await embed({
-      model: openai.embedding("text-embedding-3-small"),
+      model: embeddingModel("cache"),
       value: input,
+      abortSignal,
     });
+    abortSignal?.throwIfAborted();
 
-    // Query Pinecone for similar cached queries
-    const queryResult = await cacheIndex.query({
+    // Query the vector store for similar cached queries
+    const queryResult = await cacheIndex().query({
       vector: embedding,
       topK: 1,
       includeMetadata: true,
+      filter: { scope: { $eq: scope } },
     });
 
     if (queryResult.matches && queryResult.matches.length > 0) {
@@ -49,12 +54,20 @@ export class SemanticCache {
     return null;
   }
 
-  async set(input: string, result: unknown): Promise<void> {
+  /** Skips the write if `abortSignal` fires first, so cancelled runs are never cached. */
+  async set(
+    input: string,
+    result: unknown,
+    scope = "default",
+    abortSignal?: AbortSignal
+  ): Promise<void> {
     // Generate embedding for input
     const { embedding } = await embed({
-      model: openai.embedding("text-embedding-3-small"),
+      model: embeddingModel("cache"),
       value: input,
+      abortSignal,
     });
+    abortSignal?.throwIfAborted();
 
     // Create a unique ID for this cache entry
     const id = crypto.createHash('sha256').update(input + Date.now()).digest('hex').slice(0, 16);
@@ -62,11 +75,12 @@ export class SemanticCache {
     const metadata = {
       input,
       result: JSON.stringify(result),
+      scope,
       timestamp: Date.now(),
     };
 
-    // Store in Pinecone cache namespace
-    await cacheIndex.upsert([{
+    // Store in the cache namespace
+    await cacheIndex().upsert([{
       id: `cache-${id}`,
       values: embedding,
       metadata,
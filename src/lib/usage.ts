@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { UsageData, UsageLine } from "@/types/ai";
+
+// ---- per-request token and cost accounting ----
+
+export type UsageRecord = {
+  role: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  embeddingTokens?: number;
+  cost: number;
+  priced: boolean;
+};
+
+export class UsageMeter {
+  private lines = new Map<string, UsageLine>();
+  private unpriced = new Set<string>();
+
+  record(r: UsageRecord) {
+    const key = `${r.role}|${r.model}`;
+    const line = this.lines.get(key) ?? {
+      role: r.role,
+      model: r.model,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      embeddingTokens: 0,
+      cost: 0,
+    };
+    line.calls += 1;
+    line.inputTokens += r.inputTokens ?? 0;
+    line.outputTokens += r.outputTokens ?? 0;
+    line.embeddingTokens += r.embeddingTokens ?? 0;
+    line.cost += r.cost;
+    this.lines.set(key, line);
+    if (!r.priced) this.unpriced.add(r.model);
+  }
+
+  snapshot(): UsageData {
+    const lines = [...this.lines.values()].map((l) => ({ ...l }));
+    const sum = (f: (l: UsageLine) => number) =>
+      lines.reduce((n, l) => n + f(l), 0);
+    return {
+      lines,
+      totals: {
+        calls: sum((l) => l.calls),
+        inputTokens: sum((l) => l.inputTokens),
+        outputTokens: sum((l) => l.outputTokens),
+        embeddingTokens: sum((l) => l.embeddingTokens),
+        cost: sum((l) => l.cost),
+      },
+      currency: "USD",
+      ...(this.unpriced.size ? { unpricedModels: [...this.unpriced] } : {}),
+    };
+  }
+}
+
+const storage = new AsyncLocalStorage<UsageMeter>();
+
+/**
+ * Run `fn` with `meter` as the current meter. Every model call made inside,
+ * including from streams and tools it starts, is recorded on it.
+ */
+export function runWithUsage<T>(meter: UsageMeter, fn: () => T): T {
+  return storage.run(meter, fn);
+}
+
+/** The meter of the request being handled, if any. */
+export function currentUsage(): UsageMeter | undefined {
+  return storage.getStore();
+}
+
+/** One-line summary for server logs. */
+export function describeUsage(usage: UsageData): string {
+  const { totals } = usage;
+  return `Calls: ${totals.calls} | Tokens: ${totals.inputTokens} in / ${
+    totals.outputTokens
+  } out | Embedding tokens: ${totals.embeddingTokens} | Cost: $${totals.cost.toFixed(
+    5
+  )}${usage.unpricedModels ? ` | Unpriced: ${usage.unpricedModels.join(", ")}` : ""}`;
+}
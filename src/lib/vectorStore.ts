@@ -0,0 +1,250 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Pinecone } from "@pinecone-database/pinecone";
+import { isMockMode, seedEvidence } from "@/lib/mock";
+
+// ---- vector store: Pinecone, or a local index persisted to disk ----
+
+// Same value types as Pinecone metadata, so records move between stores as-is
+export type VectorMetadata = Record<
+  string,
+  string | number | boolean | string[]
+>;
+
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  metadata?: VectorMetadata;
+};
+
+/**
+ * Pinecone-style metadata filter: `{ field: value }` or
+ * `{ field: { $eq | $ne | $in | $nin: ... } }`, all conditions ANDed.
+ */
+export type VectorFilter = Record<string, unknown>;
+
+/** One namespace of a store: what ingestion, retrieval and the cache use. */
+export interface VectorIndex {
+  query(q: {
+    vector: number[];
+    topK: number;
+    includeMetadata?: boolean;
+    filter?: VectorFilter;
+  }): Promise<{
+    matches?: { id: string; score?: number; metadata?: VectorMetadata }[];
+  }>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  deleteMany(filter: VectorFilter): Promise<void>;
+}
+
+export interface VectorStore {
+  readonly kind: "pinecone" | "local" | "memory";
+  namespace(name: string): VectorIndex;
+}
+
+// ---- brute-force cosine search, shared by the local and in-memory stores ----
+
+type Condition = { $eq?: unknown; $ne?: unknown; $in?: unknown[]; $nin?: unknown[] };
+
+function matchesFilter(
+  metadata: VectorMetadata | undefined,
+  filter: VectorFilter | undefined
+): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([field, cond]) => {
+    const value = metadata?.[field];
+    if (cond === null || typeof cond !== "object" || Array.isArray(cond)) {
+      return value === cond;
+    }
+    const c = cond as Condition;
+    if ("$eq" in c && value !== c.$eq) return false;
+    if ("$ne" in c && value === c.$ne) return false;
+    // List metadata matches $in/$nin if any element does, as in Pinecone
+    const values = Array.isArray(value) ? value : [value];
+    if (c.$in && !values.some((v) => c.$in!.includes(v))) return false;
+    if (c.$nin && values.some((v) => c.$nin!.includes(v))) return false;
+    return true;
+  });
+}
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+export class MemoryIndex implements VectorIndex {
+  protected records = new Map<string, VectorRecord>();
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const r of records) this.records.set(r.id, r);
+  }
+
+  async deleteMany(filter: VectorFilter): Promise<void> {
+    for (const [id, r] of this.records) {
+      if (matchesFilter(r.metadata, filter)) this.records.delete(id);
+    }
+  }
+
+  async query({
+    vector,
+    topK,
+    includeMetadata,
+    filter,
+  }: Parameters<VectorIndex["query"]>[0]) {
+    const matches = [...this.records.values()]
+      .filter((r) => matchesFilter(r.metadata, filter))
+      .map((r) => ({
+        id: r.id,
+        score: cosine(vector, r.values),
+        ...(includeMetadata ? { metadata: r.metadata } : {}),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+    return { matches };
+  }
+}
+
+/**
+ * A MemoryIndex saved to one JSON file per namespace. Writes replace the file
+ * atomically, and reads reload it when another process (the ingest script)
+ * has changed it since.
+ */
+export class FileIndex extends MemoryIndex {
+  private loadedAt = -1; // mtime of the file the records came from
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private file: string) {
+    super();
+  }
+
+  private async sync() {
+    const stat = await fs.promises.stat(this.file).catch(() => null);
+    const mtime = stat?.mtimeMs ?? 0;
+    if (mtime === this.loadedAt) return;
+    const records: VectorRecord[] = stat
+      ? JSON.parse(await fs.promises.readFile(this.file, "utf8"))
+      : [];
+    this.records = new Map(records.map((r) => [r.id, r]));
+    this.loadedAt = mtime;
+  }
+
+  private async save() {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(
+      tmp,
+      JSON.stringify([...this.records.values()])
+    );
+    await fs.promises.rename(tmp, this.file);
+    this.loadedAt = (await fs.promises.stat(this.file)).mtimeMs;
+  }
+
+  /** Writes run one at a time, each on the latest copy of the file. */
+  private write(change: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(async () => {
+      await this.sync();
+      await change();
+      await this.save();
+    });
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    return this.write(() => super.upsert(records));
+  }
+
+  async deleteMany(filter: VectorFilter): Promise<void> {
+    return this.write(() => super.deleteMany(filter));
+  }
+
+  async query(q: Parameters<VectorIndex["query"]>[0]) {
+    await this.sync();
+    return super.query(q);
+  }
+}
+
+// ---- stores ----
+
+function pineconeStore(): VectorStore {
+  let pc: Pinecone | undefined;
+  return {
+    kind: "pinecone",
+    namespace(name) {
+      pc ??= new Pinecone({ apiKey: process.env.PINECONE_API_KEY! });
+      const ns = pc
+        .index(process.env.PINECONE_INDEX || "moral-compass-ai")
+        .namespace(name);
+      return {
+        query: (q) => ns.query(q),
+        upsert: (records) => ns.upsert(records),
+        // Pod-based indexes only; serverless indexes reject metadata deletes
+        deleteMany: (filter) => ns.deleteMany(filter),
+      };
+    },
+  };
+}
+
+function localStore(dir: string): VectorStore {
+  return {
+    kind: "local",
+    namespace(name) {
+      const file = name.replace(/[^A-Za-z0-9_-]/g, "_") + ".json";
+      return new FileIndex(path.join(dir, file));
+    },
+  };
+}
+
+/** MOCK_MODE: nothing persists, and evidence comes from the seeded passages. */
+function memoryStore(): VectorStore {
+  return {
+    kind: "memory",
+    namespace(name) {
+      const index = new MemoryIndex();
+      if (name === "__default__") void index.upsert(seedEvidence());
+      return index;
+    },
+  };
+}
+
+/**
+ * The configured store: VECTOR_STORE=pinecone|local, defaulting to Pinecone
+ * when PINECONE_API_KEY is set and to local files under VECTOR_STORE_DIR
+ * (.data/vectors) otherwise.
+ */
+export function createVectorStore(): VectorStore {
+  if (isMockMode()) return memoryStore();
+  const kind =
+    process.env.VECTOR_STORE?.toLowerCase() ||
+    (process.env.PINECONE_API_KEY ? "pinecone" : "local");
+  if (kind === "pinecone") return pineconeStore();
+  if (kind === "local") {
+    return localStore(
+      path.resolve(
+        process.cwd(),
+        process.env.VECTOR_STORE_DIR || ".data/vectors"
+      )
+    );
+  }
+  throw new Error(`VECTOR_STORE must be "pinecone" or "local", got "${kind}"`);
+}
+
+let store: VectorStore | undefined;
+const namespaces = new Map<string, VectorIndex>();
+
+/** Stores are created on first use, so importing this module needs no credentials. */
+export function vectorIndex(namespace: string): VectorIndex {
+  const cached = namespaces.get(namespace);
+  if (cached) return cached;
+  store ??= createVectorStore();
+  const index = store.namespace(namespace);
+  namespaces.set(namespace, index);
+  return index;
+}
@@ -0,0 +1,215 @@
+import { generateObject, tool, type Tool } from "ai";
+import { z } from "zod";
+import type { AgentDefinition } from "@/lib/agents";
+import { modelSettings } from "@/lib/models";
+import { retrieveEvidence, type Evidence } from "@/lib/retrieval";
+import { describeProfile } from "@/lib/profile";
+import { languageInstruction } from "@/lib/language";
+import { isAbortError } from "@/lib/resilience";
+import {
+  ClausesSchema,
+  EthicsSchema,
+  FindingsSchema,
+  JurisdictionsBreakdownSchema,
+  ToolFindingsSchema,
+  findingsInstructions,
+  jurisdictionInstructions,
+  ETHICS_INSTRUCTIONS,
+  CLAUSE_INSTRUCTIONS,
+} from "@/lib/findings";
+import type {
+  AgentFindings,
+  Citation,
+  Language,
+  OrgProfile,
+} from "@/types/ai";
+
+// `profile` and `language` are never part of the router's input;
+// withRequestContext adds them
+export type AgentInput = {
+  decision: string;
+  jurisdictions?: string[];
+  profile?: OrgProfile;
+  language?: Language;
+};
+export type AgentTool = Tool<AgentInput, AgentFindings>;
+
+/** Titles and headings let policy agents cite a clause by name. */
+function describePassage(e: Evidence): string {
+  const from = [e.title, e.heading].filter(Boolean).join(", ");
+  return `${e.id} ${from ? `(${from}) ` : ""}${e.text}`;
+}
+
+/**
+ * Sources of the passages the findings cite by marker. If the model cited
+ * none, every passage it was given is listed, since the answer rests on them.
+ */
+function citationsFor(
+  findings: AgentFindings,
+  evidence: Evidence[]
+): Citation[] {
+  const text = JSON.stringify(findings);
+  const cited = evidence.filter((e) => text.includes(e.id));
+  return (cited.length ? cited : evidence).map((e) => ({
+    marker: e.id,
+    ...(e.title ? { title: e.title } : {}),
+    ...(e.publisher ? { publisher: e.publisher } : {}),
+    ...(e.heading ? { section: e.heading } : {}),
+    ...(e.page ? { page: e.page } : {}),
+    ...(e.url ? { url: e.url } : {}),
+  }));
+}
+
+/**
+ * Passages from the agent's evidence domain. Grounding is optional: if the
+ * index cannot be reached the agent runs on its own knowledge, and reports
+ * no evidence so confidence reflects it.
+ */
+async function retrieveFor(
+  agent: string,
+  { domain, topK }: NonNullable<AgentDefinition["retrieval"]>,
+  decision: string,
+  jurisdictions: string[] | undefined,
+  abortSignal?: AbortSignal
+): Promise<Evidence[]> {
+  try {
+    return await retrieveEvidence(decision, {
+      topK,
+      domain,
+      jurisdictions,
+      agent,
+      abortSignal,
+    });
+  } catch (err) {
+    if (isAbortError(err, abortSignal)) throw err;
+    console.warn(
+      `⚠️ RETRIEVAL: ${agent} continues without evidence from "${domain}": ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+    return [];
+  }
+}
+
+const ANALYSIS_TAILORING =
+  "Tailor the analysis to this organization: judge each risk against its risk appetite and flag anything that conflicts with its stated values.";
+
+/**
+ * An agent's system prompt for one request: its own instructions, the
+ * organization profile and, for retrieval agents, passages retrieved for
+ * `query`. `evidence` is undefined for agents that do not retrieve.
+ */
+export async function agentContext(
+  def: AgentDefinition,
+  {
+    query,
+    jurisdictions,
+    profile,
+    tailoring = ANALYSIS_TAILORING,
+  }: {
+    query: string;
+    jurisdictions?: string[];
+    profile?: OrgProfile;
+    // How the profile should shape the answer
+    tailoring?: string;
+  },
+  abortSignal?: AbortSignal
+): Promise<{ system: string; evidence?: Evidence[] }> {
+  const evidence = def.retrieval
+    ? await retrieveFor(
+        def.name,
+        def.retrieval,
+        query,
+        jurisdictions,
+        abortSignal
+      )
+    : undefined;
+
+  const system = [
+    def.systemPrompt,
+    ...(profile ? [`${describeProfile(profile)}\n${tailoring}`] : []),
+    ...(evidence
+      ? [
+          `--- evidence ---
+${
+  evidence.length
+    ? evidence.map(describePassage).join("\n\n")
+    : "No passages were found for this decision."
+}
+--- end evidence ---
+Cite the passages you rely on by their marker, e.g. [#2], in the summary, risks and mitigations.`,
+        ]
+      : []),
+  ].join("\n\n");
+
+  return { system, evidence };
+}
+
+/** Build a specialist agent's tool from its declarative definition. */
+export function defineAgentTool(def: AgentDefinition): AgentTool {
+  return tool<AgentInput, AgentFindings>({
+    description: def.description,
+    inputSchema: z.object({
+      decision: z.string(),
+      jurisdictions: z.array(z.string()).optional(),
+    }),
+    execute: async (
+      { decision, jurisdictions, profile, language },
+      { abortSignal }
+    ): Promise<AgentFindings> => {
+      // Agents outside law-like domains analyze the decision as stated
+      const scoped =
+        def.jurisdictional && jurisdictions?.length ? jurisdictions : undefined;
+
+      const { system, evidence } = await agentContext(
+        def,
+        { query: decision, jurisdictions: scoped, profile },
+        abortSignal
+      );
+
+      const { object } = await generateObject({
+        ...modelSettings(def.name, {
+          temperature: def.model.temperature ?? 0.5,
+          maxOutputTokens: def.model.maxOutputTokens ?? 600,
+        }),
+        abortSignal,
+        // Optional sections are required when they apply and absent otherwise
+        schema: FindingsSchema.extend({
+          ...(def.ethics ? { ethics: EthicsSchema } : {}),
+          ...(scoped ? { jurisdictions: JurisdictionsBreakdownSchema } : {}),
+          ...(def.clauses ? { clauses: ClausesSchema } : {}),
+        }),
+        messages: [
+          { role: "system", content: system },
+          {
+            role: "user",
+            content: `
+Decision: "${decision}"
+
+Respond with:
+${def.rubric.map((r) => `- ${r}`).join("\n")}
+
+${[
+  findingsInstructions(def.wordLimit),
+  ...(scoped ? [jurisdictionInstructions(scoped)] : []),
+  ...(def.ethics ? [ETHICS_INSTRUCTIONS] : []),
+  ...(def.clauses ? [CLAUSE_INSTRUCTIONS] : []),
+  ...(language && language !== "en" ? [languageInstruction(language)] : []),
+].join("\n\n")}
+            `.trim(),
+          },
+        ],
+      });
+
+      // The sections vary by agent, so the generated type is loose; pin it here
+      const findings = ToolFindingsSchema.parse(object);
+      if (!evidence) return findings;
+      const citations = citationsFor(findings, evidence);
+      return {
+        ...findings,
+        evidence: evidence.length,
+        ...(citations.length ? { citations } : {}),
+      };
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { tool } from "ai";
 import { z } from "zod";
 import { createPdfToken } from "@/lib/pdfToken";
+import { currentUsage } from "@/lib/usage";
 
 const Synthesis = z.object({
   summary: z.string().optional(),
@@ -19,6 +20,8 @@ export const generatePdfLogTool = tool({
   execute: async (input) => {
     const token = createPdfToken({
       ...input,
+      // Everything spent up to the report, taken from the request's meter
+      usage: currentUsage()?.snapshot(),
       timestamp: input.timestamp ?? new Date().toISOString(),
     });
     // Your UI only checks startsWith("/api/log-pdf"), so this works.
@@ -1,9 +1,100 @@
-export { environmentTool } from "./environment";
-export { lawTool } from "./lawTool";
-export { deiTool } from "./dei";
-export { economistTool } from "./economist";
-export { publicHealthTool } from "./publicHealth";
-export { aiRiskTool } from "./aiRiskTool";
-export { prAndReputationTool } from "./prAndReputation";
-export { synthesisTool } from "./synthesis";
+import { agentDefinitions, type AgentName } from "@/lib/agents";
+import {
+  runWithPolicy,
+  AGENT_POLICY,
+  type RetryPolicy,
+} from "@/lib/resilience";
+import { defineAgentTool, type AgentInput, type AgentTool } from "./agent";
+
+export {
+  synthesisTool,
+  createSynthesisTool,
+  synthesizeFindings,
+  synthesizeComparison,
+  AllowedTools,
+  type AgentName,
+  type AgentFinding,
+} from "./synthesis";
 export { generatePdfLogTool } from "./generatePdfLog";
+export {
+  defineAgentTool,
+  agentContext,
+  type AgentInput,
+  type AgentTool,
+} from "./agent";
+
+/** Apply a timeout and retry policy to a tool's execute. */
+function withAgentPolicy(agent: AgentTool, policy: RetryPolicy): AgentTool {
+  const { execute } = agent;
+  if (!execute) return agent;
+  return {
+    ...agent,
+    execute: (input, options) =>
+      runWithPolicy(
+        async (abortSignal) => execute(input, { ...options, abortSignal }),
+        policy,
+        options.abortSignal
+      ),
+  };
+}
+
+/**
+ * Pin the request's jurisdictions, organization profile and output language
+ * onto every agent call, whatever the router put in the tool input. Agents
+ * that are not jurisdictional ignore the jurisdictions.
+ */
+export function withRequestContext(
+  tools: Record<AgentName, AgentTool>,
+  {
+    jurisdictions,
+    profile,
+    language,
+  }: Pick<AgentInput, "jurisdictions" | "profile" | "language">
+): Record<AgentName, AgentTool> {
+  if (!jurisdictions?.length && !profile && !language) return tools;
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, agent]) => {
+      const { execute } = agent;
+      return [
+        name,
+        execute
+          ? {
+              ...agent,
+              execute: (input, options) =>
+                execute(
+                  {
+                    ...input,
+                    ...(jurisdictions?.length ? { jurisdictions } : {}),
+                    ...(profile ? { profile } : {}),
+                    ...(language ? { language } : {}),
+                  },
+                  options
+                ),
+            }
+          : agent,
+      ];
+    })
+  );
+}
+
+const definedTools = Object.fromEntries(
+  agentDefinitions.map((def) => [def.name, defineAgentTool(def)])
+) as Record<AgentName, AgentTool>;
+
+/**
+ * Every agent under `policy`, e.g. AGENT_POLICY cut off at the request's
+ * deadline (see withinDeadline).
+ */
+export function agentToolsWithPolicy(
+  policy: RetryPolicy
+): Record<AgentName, AgentTool> {
+  return Object.fromEntries(
+    Object.entries(definedTools).map(([name, agent]) => [
+      name,
+      withAgentPolicy(agent, policy),
+    ])
+  ) as Record<AgentName, AgentTool>;
+}
+
+/** Specialist agents keyed by the names the router and synthesis use. */
+export const agentTools = agentToolsWithPolicy(AGENT_POLICY);
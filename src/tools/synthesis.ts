@@ -1,66 +1,325 @@
-import { openai } from "@ai-sdk/openai";
-import { generateText, tool } from "ai";
+import { generateObject, generateText, tool } from "ai";
 import { z } from "zod";
+import { AllowedTools, type AgentName } from "@/lib/agents";
+import { modelSettings } from "@/lib/models";
+import {
+  runWithPolicy,
+  withinDeadline,
+  SYNTHESIS_POLICY,
+} from "@/lib/resilience";
+import { describeProfile } from "@/lib/profile";
+import { languageInstruction } from "@/lib/language";
+import type {
+  ComparisonCell,
+  ComparisonOption,
+  DebateData,
+  Language,
+  MissingAgent,
+  OrgProfile,
+} from "@/types/ai";
 
-const AllowedTools = [
-  "environment",
-  "law",
-  "dei",
-  "economist",
-  "prAndReputation",
-  "publicHealth",
-  "aiRisk",
-] as const;
-
-export const synthesisTool = tool({
-  description: "Final structured recommendation after all analysis.",
-  inputSchema: z.object({
-    summary: z.string(),
-    agentsUsed: z.preprocess((v) => {
-      if (Array.isArray(v)) return v;
-      if (typeof v === "string") {
-        try {
-          const parsed = JSON.parse(v);
-          if (Array.isArray(parsed)) return parsed;
-        } catch {}
-        return v.split(/[,\s]+/).filter(Boolean);
-      }
-      return [];
-    }, z.array(z.enum(AllowedTools)).default([])),
-    confidence: z.number().min(0).max(1),
-  }),
-  execute: async ({ summary, agentsUsed, confidence }) => {
-    const { text } = await generateText({
-      model: openai("gpt-4.1-nano"),
-      maxOutputTokens: 300,
-      temperature: 0.5,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a decision ethics synthesizer AI. Your job is to summarize the final recommendation from multiple expert agent perspectives. Be concise and practical. Do not use Markdown.",
-        },
-        {
-          role: "user",
-          content: `
+export { AllowedTools, type AgentName };
+
+export type AgentFinding = { agent: AgentName; output: string };
+
+/**
+ * The router's synthesis tool, tailored to the organization when a profile is
+ * set, answering in the request's output language and done by `deadline`.
+ */
+export const createSynthesisTool = ({
+  profile,
+  language,
+  deadline,
+}: { profile?: OrgProfile; language?: Language; deadline?: number } = {}) =>
+  tool({
+    description: "Final structured recommendation after all analysis.",
+    inputSchema: z.object({
+      summary: z.string(),
+      agentsUsed: z.preprocess((v) => {
+        if (Array.isArray(v)) return v;
+        if (typeof v === "string") {
+          try {
+            const parsed = JSON.parse(v);
+            if (Array.isArray(parsed)) return parsed;
+          } catch {}
+          return v.split(/[,\s]+/).filter(Boolean);
+        }
+        return [];
+      }, z.array(z.enum(AllowedTools)).default([])),
+    }),
+    // Confidence is computed by the caller from the agents' results
+    execute: async ({ summary, agentsUsed }, { abortSignal }) => {
+      const { text } = await runWithPolicy(
+        (signal) =>
+          generateText({
+            ...modelSettings("synthesis", {
+              temperature: 0.5,
+              maxOutputTokens: 300,
+            }),
+            abortSignal: signal,
+            messages: [
+              {
+                role: "system",
+                content: `You are a decision ethics synthesizer AI. Your job is to summarize the final recommendation from multiple expert agent perspectives. Be concise and practical. Do not use Markdown.${inLanguage(
+                  language
+                )}`,
+              },
+              {
+                role: "user",
+                content: `
 Summary of findings:
 "${summary}"
 
 Agents consulted:
 ${agentsUsed.map((a) => `- ${a}`).join("\n")}
+${weighEthics(agentsUsed)}${weighPolicies(agentsUsed)}${describeProfileFit(profile)}
+Please synthesize a brief, actionable recommendation that reflects multi-perspective analysis and the ethical implications.
+                `.trim(),
+              },
+            ],
+          }),
+        withinDeadline(SYNTHESIS_POLICY, deadline),
+        abortSignal
+      );
 
-Confidence in recommendation: ${confidence * 100}%
+      return {
+        summary: text,
+        agentsUsed,
+      };
+    },
+  });
 
-Please synthesize a brief, actionable recommendation that reflects multi-perspective analysis and the ethical implications.
+export const synthesisTool = createSynthesisTool();
+
+/** Output language, appended to the synthesizer's system prompt. */
+function inLanguage(language?: Language) {
+  const instruction = languageInstruction(language);
+  return instruction ? ` ${instruction}` : "";
+}
+
+/** What synthesizeFindings and synthesizeComparison weigh besides the agents. */
+export type SynthesisOptions = {
+  debate?: DebateData[];
+  missing?: MissingAgent[];
+  jurisdictions?: string[];
+  profile?: OrgProfile;
+  language?: Language;
+  abortSignal?: AbortSignal;
+};
+
+function describeDebate(debate: DebateData[]) {
+  return debate.flatMap((d) =>
+    (d.exchanges ?? []).map(
+      (x) => `- ${d.agent} ${x.stance}s ${x.to}: ${x.point}`
+    )
+  );
+}
+
+/**
+ * The ethical-frameworks agent judges the decision itself rather than a risk
+ * domain, so synthesis must weigh it against the others instead of averaging
+ * it in.
+ */
+function weighEthics(agents: readonly string[]) {
+  return agents.includes("moralPhilosophy")
+    ? `
+The moralPhilosophy agent judged the decision through ethical frameworks rather than business risk.
+Weigh its core moral trade-off explicitly against the domain risks: say which side of the trade-off the recommendation takes and why.
+`
+    : "";
+}
+
+/** Violated internal policy clauses block a plain "proceed". */
+function weighPolicies(agents: readonly string[]) {
+  return agents.includes("policyCompliance")
+    ? `
+The policyCompliance agent checked the decision against the organization's own policies.
+Name every clause it found violated, and make the recommendation conditional on resolving or getting an exception for each.
+`
+    : "";
+}
+
+function describeJurisdictions(jurisdictions: string[]) {
+  return jurisdictions.length
+    ? `
+The decision applies in: ${jurisdictions.join(", ")}.
+Where the findings differ by jurisdiction, say where the recommendation changes and why.
+`
+    : "";
+}
+
+function describeProfileFit(profile?: OrgProfile) {
+  return profile
+    ? `
+${describeProfile(profile)}
+Say whether the recommendation fits this organization's risk appetite and values, and where it does not.
+`
+    : "";
+}
+
+function describeMissing(missing: MissingAgent[]) {
+  return missing.length
+    ? `
+Missing perspectives (these agents failed and their views are NOT reflected above):
+${missing.map((m) => `- ${m.agent}: ${m.reason}`).join("\n")}
+State explicitly in the summary which perspectives are missing.
+`
+    : "";
+}
+
+function describeUnscored(cells: ComparisonCell[]) {
+  const unscored = cells.filter((c) => c.missing);
+  return unscored.length
+    ? `
+Not scored (the agent left these options out; do not treat them as low scores):
+${unscored.map((c) => `- [${c.agent}] ${c.option}`).join("\n")}
+`
+    : "";
+}
+
+/**
+ * Synthesize directly from the agents' own findings (used by the parallel
+ * fan-out mode, where no router model writes an intermediate summary).
+ */
+export async function synthesizeFindings(
+  decision: string,
+  findings: AgentFinding[],
+  {
+    debate = [],
+    missing = [],
+    jurisdictions = [],
+    profile,
+    language,
+    abortSignal,
+  }: SynthesisOptions = {}
+) {
+  const exchanges = describeDebate(debate);
+
+  const { object } = await generateObject({
+    ...modelSettings("synthesis", { temperature: 0.3, maxOutputTokens: 400 }),
+    abortSignal,
+    schema: z.object({
+      summary: z.string(),
+    }),
+    messages: [
+      {
+        role: "system",
+        content: `You are a decision ethics synthesizer AI. Your job is to summarize the final recommendation from multiple expert agent perspectives. Be concise and practical. Do not use Markdown.${inLanguage(
+          language
+        )}`,
+      },
+      {
+        role: "user",
+        content: `
+Decision: "${decision}"
+
+Agent findings:
+${findings.map((f) => `[${f.agent}]\n${f.output}`).join("\n\n")}
+${
+  exchanges.length
+    ? `\nCross-examination between agents:\n${exchanges.join("\n")}\n`
+    : ""
+}${weighEthics(findings.map((f) => f.agent))}${weighPolicies(
+  findings.map((f) => f.agent)
+)}${describeJurisdictions(
+  jurisdictions
+)}${describeProfileFit(profile)}${describeMissing(missing)}
+Return:
+- summary: a brief, actionable recommendation that reflects the multi-perspective analysis and the ethical implications${
+  exchanges.length
+    ? ", explicitly resolving the trade-offs raised in the cross-examination"
+    : ""
+}
+          `.trim(),
+      },
+    ],
+  });
+
+  return {
+    summary: object.summary,
+    agentsUsed: findings.map((f) => f.agent),
+    ...(missing.length ? { missingAgents: missing } : {}),
+  };
+}
+
+/** Rank 2-4 alternative options from every agent's per-option scores. */
+export async function synthesizeComparison(
+  decision: string,
+  options: ComparisonOption[],
+  cells: ComparisonCell[],
+  {
+    debate = [],
+    missing = [],
+    jurisdictions = [],
+    profile,
+    language,
+    abortSignal,
+  }: SynthesisOptions = {}
+) {
+  const names = options.map((o) => o.name) as [string, ...string[]];
+  const agentsUsed = AllowedTools.filter((a) =>
+    cells.some((c) => c.agent === a)
+  );
+  const exchanges = describeDebate(debate);
+
+  const { object } = await generateObject({
+    ...modelSettings("synthesis", { temperature: 0.3, maxOutputTokens: 600 }),
+    abortSignal,
+    schema: z.object({
+      summary: z.string(),
+      ranking: z.array(
+        z.object({
+          option: z.enum(names),
+          rationale: z.string(),
+        })
+      ),
+    }),
+    messages: [
+      {
+        role: "system",
+        content: `You are a decision ethics synthesizer AI. Your job is to compare alternative options across multiple expert agent perspectives and recommend one. Be concise and practical. Do not use Markdown.${inLanguage(
+          language
+        )}`,
+      },
+      {
+        role: "user",
+        content: `
+Decision: "${decision}"
+
+Options:
+${options.map((o) => `- ${o.name}${o.description ? `: ${o.description}` : ""}`).join("\n")}
+
+Agent scores (0-10, higher is more favourable):
+${cells.filter((c) => !c.missing).map((c) => `- [${c.agent}] ${c.option}: ${c.score} — ${c.summary}`).join("\n")}
+${describeUnscored(cells)}${
+  exchanges.length
+    ? `\nCross-examination between agents:\n${exchanges.join("\n")}\n`
+    : ""
+}${weighEthics(agentsUsed)}${weighPolicies(agentsUsed)}${describeJurisdictions(
+  jurisdictions
+)}${describeProfileFit(profile)}${describeMissing(missing)}
+Return:
+- summary: a brief, actionable recommendation naming the preferred option and the key trade-offs
+- ranking: EVERY option, best first, each with a one-sentence rationale
           `.trim(),
-        },
-      ],
-    });
-
-    return {
-      summary: text,
-      agentsUsed,
-      confidence,
-    };
-  },
-});
+      },
+    ],
+  });
+
+  // Keep every option exactly once, even if the model dropped or repeated one
+  const ranking = object.ranking.filter(
+    (r, i, all) => all.findIndex((x) => x.option === r.option) === i
+  );
+  for (const name of names) {
+    if (!ranking.some((r) => r.option === name)) {
+      ranking.push({ option: name, rationale: "Not ranked." });
+    }
+  }
+
+  return {
+    summary: object.summary,
+    agentsUsed: [...agentsUsed],
+    ranking,
+    ...(missing.length ? { missingAgents: missing } : {}),
+  };
+}
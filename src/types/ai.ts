@@ -1,15 +1,225 @@
 import type { UIMessage } from "ai";
+import type { AgentName } from "@/lib/agents";
+
+export type { AgentName };
+
+// "cancelled" is client-side only: cards still running when the user stops
+export type AgentStatus = "running" | "done" | "error" | "timeout" | "cancelled";
+
+export type AgentRisk = {
+  title: string;
+  severity: "low" | "medium" | "high" | "critical";
+  likelihood: "unlikely" | "possible" | "likely" | "almost certain";
+  stakeholders: string[];
+};
+
+export type Recommendation =
+  | "proceed"
+  | "proceed with mitigations"
+  | "do not proceed";
+
+export type EthicalFramework =
+  | "utilitarian"
+  | "deontological"
+  | "virtue"
+  | "care";
+
+/** How one normative framework judges the decision. */
+export type FrameworkVerdict = {
+  framework: EthicalFramework;
+  verdict: "supports" | "opposes" | "mixed";
+  reasoning: string;
+};
+
+/** Extra output of the ethical-frameworks agent. */
+export type EthicsAnalysis = {
+  frameworks: FrameworkVerdict[];
+  conflicts: string[];
+  coreTradeOff: string;
+};
+
+/** An agent's risk in one of the jurisdictions the request named. */
+export type JurisdictionFinding = {
+  jurisdiction: string;
+  severity: AgentRisk["severity"];
+  summary: string;
+};
+
+/** An internal policy clause the decision violates or satisfies. */
+export type PolicyClause = {
+  policy: string; // e.g. "AI Use Policy"
+  clause: string; // e.g. "§4.2"
+  status: "violates" | "satisfies" | "unclear";
+  explanation: string;
+  evidence?: string; // the excerpt it was read from, e.g. "[#2]"
+};
+
+/** A retrieved passage an agent cites, linked to the `[#n]` marker in its text. */
+export type Citation = {
+  marker: string; // e.g. "[#2]"
+  title?: string;
+  publisher?: string;
+  section?: string; // heading of the section the passage came from
+  page?: number;
+  url?: string;
+};
+
+/** Structured result of a specialist agent (validated by FindingsSchema). */
+export type AgentFindings = {
+  summary: string;
+  recommendation: Recommendation;
+  riskScore: number; // 0 (negligible) to 10 (severe) on the agent's dimension
+  risks: AgentRisk[];
+  mitigations: string[];
+  openQuestions: string[];
+  needsExpertReview: boolean;
+  evidence?: number; // passages retrieved for the agent; unset without retrieval
+  ethics?: EthicsAnalysis; // moralPhilosophy only
+  jurisdictions?: JurisdictionFinding[]; // jurisdictional agents, when requested
+  clauses?: PolicyClause[]; // agents that check internal policies
+  citations?: Citation[]; // sources of the passages it cites; grounded agents only
+};
 
 export type AgentData = {
   tool: string;
-  output?: string;
-  status: "running" | "done";
+  output?: string; // plain-text rendering, also the whole output of non-agent tools
+  findings?: AgentFindings;
+  status: AgentStatus;
+  error?: string; // reason, when status is "error" or "timeout"
+};
+
+/** A perspective that synthesis had to proceed without. */
+export type MissingAgent = { agent: string; reason: string };
+
+export type RiskDimension = {
+  agent: string;
+  label: string;
+  score: number; // 0-10
+  weight: number;
+};
+
+/** Per-dimension risk scores and their weighted overall index (0-10). */
+export type RiskScorecard = {
+  dimensions: RiskDimension[];
+  overall: number;
+  dominant: string; // agent with the largest weighted contribution
+};
+
+/** One input to the computed confidence; scores and weights are 0-1. */
+export type ConfidenceFactor = {
+  factor: "coverage" | "breadth" | "agreement" | "evidence";
+  label: string;
+  score: number;
+  weight: number;
+  detail: string;
 };
 
 export type SynthesisData = {
   summary: string;
   agentsUsed: string[];
   confidence: number;
+  confidenceFactors?: ConfidenceFactor[];
+  missingAgents?: MissingAgent[];
+  scorecard?: RiskScorecard;
+};
+
+/** A threaded follow-up question to one agent card (or the synthesis). */
+export type FollowUpData = {
+  target: string;
+  question: string;
+  answer: string;
+  status: "running" | "done";
+};
+
+export type DebateExchange = {
+  to: string;
+  stance: "agree" | "challenge";
+  point: string;
+};
+
+/** One agent's rebuttal/agreement notes on the other agents' findings. */
+export type DebateData = {
+  agent: string;
+  status: "running" | "done";
+  exchanges?: DebateExchange[];
+};
+
+/** Targeted questions returned instead of an analysis when key facts are missing. */
+export type ClarificationData = {
+  score: number;
+  questions: { id: string; topic: string; question: string }[];
+};
+
+/** A user's answer to one clarifying question, sent back with the decision. */
+export type ClarificationAnswer = { question: string; answer: string };
+
+export type ComparisonOption = { name: string; description?: string };
+
+/**
+ * One agent's 0-10 favourability score for one option. `missing` cells are
+ * options the agent left out; they have no score and never win or rank.
+ */
+export type ComparisonCell = {
+  agent: string;
+  option: string;
+  score: number | null;
+  summary: string;
+  missing?: boolean;
+};
+
+/** Options × agents matrix, filled in as agents finish, ranked by synthesis. */
+export type ComparisonData = {
+  options: ComparisonOption[];
+  cells: ComparisonCell[];
+  dimensionWinners: { agent: string; option: string }[];
+  ranking?: { option: string; rationale: string }[];
+  status: "running" | "done";
+};
+
+/** "auto" lets the router model pick tools; "parallel" fans out deterministically. */
+export type OrchestrationMode = "auto" | "parallel";
+
+/**
+ * Caller-selected agents. Required agents always run; optional ones run only
+ * if judged relevant; agents left out of the list never run.
+ */
+export type AgentRoster = { name: AgentName; required: boolean }[];
+
+/** What the client needs to render agent chips and cards (GET /api/agents). */
+export type AgentSummary = { name: AgentName; label: string };
+
+/** Languages agents and synthesis can answer in (see lib/language.ts). */
+export type Language = "en" | "de" | "fr" | "es" | "it";
+
+export type RiskAppetite = "low" | "moderate" | "high";
+
+/** Who the analysis is for; stored server-side and edited in settings (/api/profile). */
+export type OrgProfile = {
+  name?: string;
+  industry: string;
+  size: string; // e.g. "250 employees", "Series B startup"
+  regions: string[];
+  values: string[];
+  riskAppetite: RiskAppetite;
+  notes?: string;
+};
+
+/** Tokens and cost of one role (agent, router, synthesis, embeddings…) on one model. */
+export type UsageLine = {
+  role: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  embeddingTokens: number;
+  cost: number;
+};
+
+export type UsageData = {
+  lines: UsageLine[];
+  totals: Omit<UsageLine, "role" | "model">;
+  currency: "USD";
+  unpricedModels?: string[]; // no entry in the price table, counted as free
 };
 
 export type MoralMessage = UIMessage<
@@ -17,5 +227,10 @@ export type MoralMessage = UIMessage<
   {
     agent: AgentData;
     synthesis: SynthesisData;
+    followup: FollowUpData;
+    debate: DebateData;
+    clarification: ClarificationData;
+    comparison: ComparisonData;
+    usage: UsageData;
   }
 >;